@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { GoalOption, selectCheckin } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { displayDate } from '../utils/date';
+import { ModalAction, ModalButton, ModalButtons, ModalCard } from './ModalCard';
+
+const SCORE_OPTIONS = [1, 2, 3, 4, 5] as const;
+
+interface CheckinEditorModalProps {
+  date: string | null;
+  today: string;
+  goals: GoalOption[];
+  onClose: () => void;
+}
+
+export function CheckinEditorModal({ date, today, goals, onClose }: CheckinEditorModalProps) {
+  const [state, dispatch] = useAppStore();
+  const { locale, t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [score, setScore] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [goalScores, setGoalScores] = useState<Record<string, number>>({});
+  const existing = date ? selectCheckin(state, date) : undefined;
+
+  useEffect(() => {
+    if (!date) {
+      return;
+    }
+
+    setScore(existing?.score ?? null);
+    setNote(existing?.note ?? '');
+    setGoalScores(existing?.goalScores ?? {});
+  }, [date, existing]);
+
+  const save = () => {
+    if (!date) {
+      return;
+    }
+
+    if (score === null) {
+      Alert.alert(t('alerts.checkinScore.title'), t('alerts.checkinScore.message'));
+      return;
+    }
+
+    const enteredLate = existing ? Boolean(existing.enteredLate) : date < today;
+    dispatch({
+      type: 'upsertCheckin',
+      checkin: {
+        date,
+        score,
+        note: note.trim(),
+        ...(Object.keys(goalScores).length > 0 ? { goalScores } : {}),
+        ...(enteredLate ? { enteredLate } : {}),
+      },
+    });
+    onClose();
+  };
+
+  const remove = () => {
+    if (!date) {
+      return;
+    }
+
+    Alert.alert(
+      t('alerts.deleteCheckin.title'),
+      t('alerts.deleteCheckin.message', { date: displayDate(date, locale) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => {
+            dispatch({ type: 'deleteCheckin', date });
+            onClose();
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <ModalCard
+      visible={Boolean(date)}
+      title={t('checkin.editTitle', { date: date ? displayDate(date, locale) : '' })}
+      onClose={onClose}
+    >
+      {date && date < today ? <Text style={styles.hint}>{t('checkin.lateHint')}</Text> : null}
+      <View style={styles.scoreRow}>
+        {SCORE_OPTIONS.map((option) => (
+          <Pressable
+            key={option}
+            style={[styles.scoreChip, score === option ? styles.chipActive : null]}
+            onPress={() => setScore(option)}
+          >
+            <Text style={[styles.chipText, score === option ? styles.chipTextActive : null]}>{option}</Text>
+          </Pressable>
+        ))}
+      </View>
+      {goals.map((goal) => (
+        <View key={goal.id} style={styles.rowBetween}>
+          <Text style={styles.label}>{goal.title}</Text>
+          <View style={styles.goalScoreRow}>
+            {SCORE_OPTIONS.map((option) => {
+              const selected = goalScores[goal.id] === option;
+              return (
+                <Pressable
+                  key={option}
+                  style={[styles.goalScoreChip, selected ? styles.chipActive : null]}
+                  onPress={() => setGoalScores((prev) => ({ ...prev, [goal.id]: option }))}
+                >
+                  <Text style={[styles.chipText, selected ? styles.chipTextActive : null]}>{option}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+      <TextInput
+        style={styles.input}
+        value={note}
+        onChangeText={setNote}
+        placeholder={t('home.checkin.notePlaceholder')}
+        multiline
+      />
+      {existing ? <ModalAction label={t('checkin.delete')} danger onPress={remove} /> : null}
+      <ModalButtons>
+        <ModalButton label={t('common.cancel')} onPress={onClose} />
+        <ModalButton label={t('common.save')} primary onPress={save} />
+      </ModalButtons>
+    </ModalCard>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 18,
+    },
+    rowBetween: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    label: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    scoreRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    scoreChip: {
+      width: 42,
+      height: 36,
+      borderRadius: 9,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    goalScoreRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    goalScoreChip: {
+      width: 30,
+      height: 30,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    chipText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+      minHeight: 110,
+      textAlignVertical: 'top',
+    },
+  });
+}
@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { ThemeColors } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/context';
+import { DailyCheckin } from '../types';
+import { displayDate, displayMonth, monthDateKeys, WEEK_DAYS, weekdayLabel, weekdayOf } from '../utils/date';
+
+const WEEKDAY_OFFSETS = { mon: 0, tue: 1, wed: 2, thu: 3, fri: 4, sat: 5, sun: 6 } as const;
+
+interface CheckinHeatmapProps {
+  today: string;
+  checkins: DailyCheckin[];
+  completedTaskTitles: Record<string, string[]>;
+  backfillFrom: string;
+  onEditDay: (date: string) => void;
+}
+
+export function CheckinHeatmap({
+  today,
+  checkins,
+  completedTaskTitles,
+  backfillFrom,
+  onEditDay,
+}: CheckinHeatmapProps) {
+  const { locale, t } = useI18n();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [monthOffset, setMonthOffset] = useState(0);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const { year, monthIndex } = useMemo(() => {
+    const [todayYear = 1970, todayMonth = 1] = today.split('-').map(Number);
+    const target = new Date(todayYear, todayMonth - 1 + monthOffset, 1);
+    return { year: target.getFullYear(), monthIndex: target.getMonth() };
+  }, [monthOffset, today]);
+
+  const cells = useMemo(() => {
+    const days = monthDateKeys(year, monthIndex);
+    const firstWeekday = days[0] ? weekdayOf(days[0]) : null;
+    const padding = firstWeekday ? WEEKDAY_OFFSETS[firstWeekday] : 0;
+    const grid: (string | null)[] = [...Array<null>(padding).fill(null), ...days];
+    while (grid.length % 7 !== 0) {
+      grid.push(null);
+    }
+    return grid;
+  }, [monthIndex, year]);
+
+  const checkinsByDate = useMemo(() => new Map(checkins.map((item) => [item.date, item])), [checkins]);
+  const selectedCheckin = selectedDate ? checkinsByDate.get(selectedDate) : undefined;
+  const selectedTasks = selectedDate ? completedTaskTitles[selectedDate] ?? [] : [];
+
+  const changeMonth = (delta: number) => {
+    setMonthOffset((prev) => Math.min(0, prev + delta));
+    setSelectedDate(null);
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Pressable style={styles.navBtn} onPress={() => changeMonth(-1)}>
+          <Text style={styles.navBtnText}>{'<'}</Text>
+        </Pressable>
+        <Text style={styles.monthTitle}>{displayMonth(year, monthIndex, locale)}</Text>
+        <Pressable
+          style={[styles.navBtn, monthOffset === 0 ? styles.navBtnDisabled : null]}
+          disabled={monthOffset === 0}
+          onPress={() => changeMonth(1)}
+        >
+          <Text style={styles.navBtnText}>{'>'}</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.grid}>
+        {WEEK_DAYS.map((day) => (
+          <Text key={day} style={styles.weekdayHeader}>
+            {weekdayLabel(day, locale)}
+          </Text>
+        ))}
+        {cells.map((date, index) => {
+          if (!date) {
+            return <View key={`empty-${index}`} style={styles.cell} />;
+          }
+
+          const checkin = checkinsByDate.get(date);
+          const isFuture = date > today;
+          return (
+            <Pressable
+              key={date}
+              style={styles.cell}
+              disabled={isFuture}
+              onPress={() => setSelectedDate((prev) => (prev === date ? null : date))}
+            >
+              <View
+                style={[
+                  styles.cellInner,
+                  { backgroundColor: colors.scoreScale[checkin?.score ?? 0] ?? colors.scoreScale[0] },
+                  date === today ? styles.cellToday : null,
+                  date === selectedDate ? styles.cellSelected : null,
+                  isFuture ? styles.cellFuture : null,
+                ]}
+              >
+                <Text style={styles.cellText}>{Number(date.slice(8))}</Text>
+              </View>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>{t('heatmap.less')}</Text>
+        {colors.scoreScale.map((color) => (
+          <View key={color} style={[styles.legendSwatch, { backgroundColor: color }]} />
+        ))}
+        <Text style={styles.legendText}>{t('heatmap.more')}</Text>
+      </View>
+
+      {selectedDate ? (
+        <View style={styles.details}>
+          <Text style={styles.detailsTitle}>{displayDate(selectedDate, locale)}</Text>
+          <Text style={styles.detailsText}>
+            {selectedCheckin ? t('heatmap.score', { score: selectedCheckin.score }) : t('heatmap.noCheckin')}
+          </Text>
+          {selectedCheckin?.enteredLate ? <Text style={styles.lateMarker}>{t('heatmap.enteredLate')}</Text> : null}
+          {selectedCheckin?.note ? (
+            <Text style={styles.detailsText}>{t('heatmap.note', { note: selectedCheckin.note })}</Text>
+          ) : null}
+          <Text style={styles.detailsText}>
+            {t('heatmap.tasks', {
+              tasks: selectedTasks.length > 0 ? selectedTasks.join(', ') : t('heatmap.noTasks'),
+            })}
+          </Text>
+          {selectedDate >= backfillFrom ? (
+            <Pressable style={styles.editBtn} onPress={() => onEditDay(selectedDate)}>
+              <Text style={styles.editBtnText}>{selectedCheckin ? t('heatmap.editCheckin') : t('heatmap.addCheckin')}</Text>
+            </Pressable>
+          ) : (
+            <Text style={styles.detailsHint}>{t('heatmap.outsideBackfill')}</Text>
+          )}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    navBtn: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    navBtnDisabled: {
+      opacity: 0.4,
+    },
+    navBtnText: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.accentText,
+    },
+    monthTitle: {
+      color: colors.text,
+      fontWeight: '700',
+      fontSize: 16,
+      textTransform: 'capitalize',
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    weekdayHeader: {
+      width: `${100 / 7}%`,
+      textAlign: 'center',
+      color: colors.textMuted,
+      fontSize: 12,
+      fontWeight: '600',
+      marginBottom: 4,
+    },
+    cell: {
+      width: `${100 / 7}%`,
+      aspectRatio: 1,
+      padding: 2,
+    },
+    cellInner: {
+      flex: 1,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    cellToday: {
+      borderWidth: 2,
+      borderColor: colors.accent,
+    },
+    cellSelected: {
+      borderWidth: 2,
+      borderColor: colors.text,
+    },
+    cellFuture: {
+      opacity: 0.4,
+    },
+    cellText: {
+      color: colors.accentText,
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    legend: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      gap: 4,
+      marginTop: 8,
+    },
+    legendSwatch: {
+      width: 14,
+      height: 14,
+      borderRadius: 3,
+    },
+    legendText: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    details: {
+      marginTop: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      backgroundColor: colors.surfaceMuted,
+      padding: 12,
+      gap: 4,
+    },
+    detailsTitle: {
+      color: colors.text,
+      fontWeight: '800',
+    },
+    detailsText: {
+      color: colors.textSecondary,
+      lineHeight: 19,
+    },
+    detailsHint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      marginTop: 4,
+    },
+    lateMarker: {
+      alignSelf: 'flex-start',
+      color: colors.warningText,
+      backgroundColor: colors.warningSurface,
+      borderRadius: 8,
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+      fontSize: 12,
+      fontWeight: '700',
+    },
+    editBtn: {
+      alignSelf: 'flex-start',
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 10,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surface,
+      marginTop: 6,
+    },
+    editBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+  });
+}
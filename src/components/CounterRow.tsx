@@ -0,0 +1,69 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+
+interface CounterRowProps {
+  label: string;
+  value: string | number;
+  onDecrease: () => void;
+  onIncrease: () => void;
+}
+
+export function CounterRow({ label, value, onDecrease, onIncrease }: CounterRowProps) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.counter}>
+        <Pressable style={styles.button} onPress={onDecrease}>
+          <Text style={styles.buttonText}>-</Text>
+        </Pressable>
+        <Text style={styles.value}>{value}</Text>
+        <Pressable style={styles.button} onPress={onIncrease}>
+          <Text style={styles.buttonText}>+</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    label: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    counter: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    button: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    buttonText: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.accentText,
+    },
+    value: {
+      minWidth: 50,
+      textAlign: 'center',
+      color: colors.text,
+      fontWeight: '700',
+    },
+  });
+}
@@ -1,75 +1,108 @@
 import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
 import { GoalTemplate, UserGoal } from '../types';
 
 interface GoalCardProps {
   template: GoalTemplate;
   selected: UserGoal | undefined;
   onToggle: (id: GoalTemplate['id']) => void;
+  onEdit?: () => void;
 }
 
-export function GoalCard({ template, selected, onToggle }: GoalCardProps) {
+export function GoalCard({ template, selected, onToggle, onEdit }: GoalCardProps) {
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
   const isSelected = Boolean(selected);
 
   return (
     <Pressable
-      style={[styles.card, isSelected ? styles.cardActive : null]}
+      style={[
+        styles.card,
+        { borderLeftColor: template.color },
+        isSelected ? [styles.cardActive, { borderColor: template.color }] : null,
+      ]}
       onPress={() => onToggle(template.id)}
     >
       <View style={styles.header}>
         <Text style={styles.title}>{template.title}</Text>
-        <Text style={[styles.badge, isSelected ? styles.badgeActive : null]}>
-          {isSelected ? 'Выбрано' : 'Добавить'}
-        </Text>
+        <View style={styles.headerActions}>
+          {onEdit ? (
+            <Pressable onPress={onEdit} hitSlop={8}>
+              <Text style={styles.editText}>{t('common.edit')}</Text>
+            </Pressable>
+          ) : null}
+          <Text style={[styles.badge, isSelected ? [styles.badgeActive, { backgroundColor: template.color }] : null]}>
+            {isSelected ? t('goals.card.selected') : t('goals.card.add')}
+          </Text>
+        </View>
       </View>
       <Text style={styles.description}>{template.description}</Text>
-      {selected?.customAction ? <Text style={styles.action}>Цель: {selected.customAction}</Text> : null}
+      {selected?.customAction ? (
+        <Text style={styles.action}>{t('goals.card.action', { action: selected.customAction })}</Text>
+      ) : null}
     </Pressable>
   );
 }
 
-const styles = StyleSheet.create({
-  card: {
-    backgroundColor: '#ffffff',
-    borderRadius: 14,
-    borderWidth: 1,
-    borderColor: '#e1e8f5',
-    padding: 14,
-    marginBottom: 12,
-  },
-  cardActive: {
-    borderColor: '#4169e1',
-    backgroundColor: '#f5f8ff',
-  },
-  header: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  title: {
-    fontSize: 17,
-    fontWeight: '700',
-    color: '#1d2b50',
-  },
-  badge: {
-    fontSize: 12,
-    color: '#5f6f90',
-    backgroundColor: '#edf2ff',
-    borderRadius: 10,
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-  },
-  badgeActive: {
-    backgroundColor: '#4169e1',
-    color: '#fff',
-  },
-  description: {
-    color: '#384766',
-    lineHeight: 20,
-  },
-  action: {
-    marginTop: 8,
-    color: '#24439e',
-    fontWeight: '500',
-  },
-});
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderLeftWidth: 4,
+      padding: 14,
+      marginBottom: 12,
+    },
+    cardActive: {
+      borderColor: colors.accent,
+      backgroundColor: colors.surfaceMuted,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    editText: {
+      fontSize: 12,
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    title: {
+      flex: 1,
+      fontSize: 17,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    badge: {
+      fontSize: 12,
+      color: colors.textMuted,
+      backgroundColor: colors.surfaceAccent,
+      borderRadius: 10,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    badgeActive: {
+      backgroundColor: colors.accent,
+      color: colors.onAccent,
+    },
+    description: {
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    action: {
+      marginTop: 8,
+      color: colors.accentText,
+      fontWeight: '500',
+    },
+  });
+}
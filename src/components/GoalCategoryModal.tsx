@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { CUSTOM_GOAL_COLORS } from '../constants/templates';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { GoalTemplate } from '../types';
+import { ModalAction, ModalButton, ModalButtons, ModalCard } from './ModalCard';
+
+interface GoalCategoryDraft {
+  title: string;
+  description: string;
+  color: string;
+  reminders: string;
+}
+
+interface GoalCategoryModalProps {
+  visible: boolean;
+  category: GoalTemplate | null;
+  onClose: () => void;
+}
+
+export function GoalCategoryModal({ visible, category, onClose }: GoalCategoryModalProps) {
+  const [state, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [draft, setDraft] = useState<GoalCategoryDraft>({ title: '', description: '', color: '', reminders: '' });
+  const customCount = state.customGoalCategories.length;
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setDraft(
+      category
+        ? {
+            title: category.title,
+            description: category.description,
+            color: category.color,
+            reminders: category.reminders.join('\n'),
+          }
+        : {
+            title: '',
+            description: '',
+            color: CUSTOM_GOAL_COLORS[customCount % CUSTOM_GOAL_COLORS.length] ?? '#4169e1',
+            reminders: '',
+          },
+    );
+  }, [category, customCount, visible]);
+
+  const save = () => {
+    const title = draft.title.trim();
+    if (!title) {
+      Alert.alert(t('alerts.categoryTitle.title'), t('alerts.categoryTitle.message'));
+      return;
+    }
+
+    const next: GoalTemplate = {
+      id: category?.id ?? `custom-goal-${Date.now()}`,
+      title,
+      description: draft.description.trim(),
+      color: draft.color,
+      reminders: draft.reminders
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean),
+    };
+    dispatch(category ? { type: 'updateGoalCategory', category: next } : { type: 'addGoalCategory', category: next });
+    onClose();
+  };
+
+  const remove = () => {
+    if (category) {
+      dispatch({ type: 'deleteGoalCategory', categoryId: category.id });
+      onClose();
+    }
+  };
+
+  return (
+    <ModalCard
+      visible={visible}
+      title={category ? t('goals.category.editTitle') : t('goals.category.newTitle')}
+      onClose={onClose}
+    >
+      <TextInput
+        style={styles.input}
+        value={draft.title}
+        onChangeText={(title) => setDraft((prev) => ({ ...prev, title }))}
+        placeholder={t('goals.category.titlePlaceholder')}
+      />
+      <TextInput
+        style={styles.input}
+        value={draft.description}
+        onChangeText={(description) => setDraft((prev) => ({ ...prev, description }))}
+        placeholder={t('goals.category.descriptionPlaceholder')}
+      />
+      <Text style={styles.sectionLabel}>{t('goals.category.color')}</Text>
+      <View style={styles.colorsWrap}>
+        {CUSTOM_GOAL_COLORS.map((color) => (
+          <Pressable
+            key={color}
+            style={[
+              styles.colorChip,
+              { backgroundColor: color },
+              draft.color === color ? styles.colorChipActive : null,
+            ]}
+            onPress={() => setDraft((prev) => ({ ...prev, color }))}
+          />
+        ))}
+      </View>
+      <Text style={styles.sectionLabel}>{t('goals.category.reminders')}</Text>
+      <TextInput
+        style={[styles.input, styles.textarea]}
+        value={draft.reminders}
+        onChangeText={(reminders) => setDraft((prev) => ({ ...prev, reminders }))}
+        placeholder={t('goals.category.remindersPlaceholder')}
+        multiline
+      />
+      <Text style={styles.hint}>{t('goals.category.remindersHint')}</Text>
+      {category ? <ModalAction label={t('goals.category.delete')} danger onPress={remove} /> : null}
+      <ModalButtons>
+        <ModalButton label={t('common.cancel')} onPress={onClose} />
+        <ModalButton label={t('common.save')} primary onPress={save} />
+      </ModalButtons>
+    </ModalCard>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+    textarea: {
+      minHeight: 110,
+      textAlignVertical: 'top',
+    },
+    sectionLabel: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 18,
+    },
+    colorsWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    colorChip: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      borderWidth: 3,
+      borderColor: 'transparent',
+    },
+    colorChipActive: {
+      borderColor: colors.text,
+    },
+  });
+}
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { AppState } from '../types';
+import { ImportMode, previewImport } from '../utils/backup';
+import { ModalButton, ModalButtons, ModalCard } from './ModalCard';
+
+const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+
+interface ImportPreviewModalProps {
+  incoming: AppState | null;
+  onClose: () => void;
+}
+
+export function ImportPreviewModal({ incoming, onClose }: ImportPreviewModalProps) {
+  const [state, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const preview = useMemo(() => (incoming ? previewImport(state, incoming, mode) : []), [incoming, mode, state]);
+
+  useEffect(() => {
+    setMode('merge');
+  }, [incoming]);
+
+  const confirm = () => {
+    if (!incoming) {
+      return;
+    }
+
+    dispatch({ type: 'importState', state: incoming, mode });
+    onClose();
+    Alert.alert(
+      t('alerts.imported.title'),
+      mode === 'merge' ? t('alerts.imported.merge') : t('alerts.imported.replace'),
+    );
+  };
+
+  return (
+    <ModalCard visible={Boolean(incoming)} title={t('import.title')} onClose={onClose}>
+      <View style={styles.modeRow}>
+        {IMPORT_MODES.map((item) => (
+          <Pressable
+            key={item}
+            style={[styles.modeChip, mode === item ? styles.modeChipActive : null]}
+            onPress={() => setMode(item)}
+          >
+            <Text style={[styles.modeChipText, mode === item ? styles.modeChipTextActive : null]}>
+              {item === 'merge' ? t('import.merge') : t('import.replace')}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <Text style={styles.hint}>{mode === 'merge' ? t('import.mergeHint') : t('import.replaceHint')}</Text>
+      {preview.map((section) => (
+        <View key={section.label} style={styles.rowBetween}>
+          <Text style={styles.label}>{t(section.label)}</Text>
+          <Text style={[styles.hint, section.removed > 0 ? styles.dangerText : null]}>
+            {section.added || section.updated || section.removed
+              ? [
+                  section.added ? `+${section.added}` : null,
+                  section.updated ? t('import.updated', { count: section.updated }) : null,
+                  section.removed ? t('import.removed', { count: section.removed }) : null,
+                ]
+                  .filter(Boolean)
+                  .join(', ')
+              : t('import.unchanged')}
+          </Text>
+        </View>
+      ))}
+      <ModalButtons>
+        <ModalButton label={t('common.cancel')} onPress={onClose} />
+        <ModalButton label={t('import.confirm')} primary onPress={confirm} />
+      </ModalButtons>
+    </ModalCard>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    modeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 6,
+    },
+    modeChip: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 10,
+      paddingVertical: 10,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+    },
+    modeChipActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    modeChipText: {
+      color: colors.accentText,
+      fontWeight: '600',
+      fontSize: 12,
+    },
+    modeChipTextActive: {
+      color: colors.onAccent,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 18,
+    },
+    rowBetween: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    label: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    dangerText: {
+      color: colors.danger,
+    },
+  });
+}
@@ -0,0 +1,163 @@
+import { PropsWithChildren } from 'react';
+import { Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+
+interface ModalCardProps extends PropsWithChildren {
+  visible: boolean;
+  title: string;
+  onClose: () => void;
+  tall?: boolean;
+}
+
+interface ModalButtonProps {
+  label: string;
+  onPress: () => void;
+  primary?: boolean;
+  danger?: boolean;
+  disabled?: boolean;
+}
+
+export function ModalCard({ visible, title, onClose, tall, children }: ModalCardProps) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <Pressable style={styles.dismissLayer} onPress={onClose} />
+        <View style={[styles.card, tall ? styles.cardTall : null]}>
+          <Text style={styles.title}>{title}</Text>
+          {children}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+export function ModalAction({ label, onPress, danger }: Omit<ModalButtonProps, 'primary' | 'disabled'>) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Pressable style={styles.actionBtn} onPress={onPress}>
+      <Text style={[styles.actionText, danger ? styles.dangerText : null]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export function ModalDismiss({ label, onPress }: Pick<ModalButtonProps, 'label' | 'onPress'>) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Pressable style={styles.dismissBtn} onPress={onPress}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export function ModalButtons({ children }: PropsWithChildren) {
+  const styles = useThemedStyles(createStyles);
+  return <View style={styles.buttonsRow}>{children}</View>;
+}
+
+export function ModalButton({ label, onPress, primary, danger, disabled }: ModalButtonProps) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Pressable
+      style={[primary ? styles.confirmBtn : styles.button, disabled ? styles.disabledBtn : null]}
+      disabled={disabled}
+      onPress={onPress}
+    >
+      <Text style={[primary ? styles.confirmText : styles.buttonText, danger ? styles.dangerText : null]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingHorizontal: 20,
+    },
+    dismissLayer: {
+      ...StyleSheet.absoluteFillObject,
+    },
+    card: {
+      width: '100%',
+      maxWidth: 380,
+      borderRadius: 14,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 14,
+      gap: 8,
+    },
+    cardTall: {
+      maxHeight: '88%',
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 2,
+    },
+    actionBtn: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingVertical: 11,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surfaceMuted,
+    },
+    actionText: {
+      color: colors.accentText,
+      fontWeight: '600',
+    },
+    dangerText: {
+      color: colors.danger,
+    },
+    dismissBtn: {
+      borderRadius: 10,
+      paddingVertical: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surfaceAccent,
+      marginTop: 2,
+    },
+    buttonsRow: {
+      marginTop: 4,
+      flexDirection: 'row',
+      gap: 10,
+    },
+    button: {
+      flex: 1,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 10,
+      backgroundColor: colors.background,
+    },
+    buttonText: {
+      color: colors.accentText,
+      fontWeight: '600',
+    },
+    confirmBtn: {
+      flex: 1,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 10,
+      backgroundColor: colors.accent,
+    },
+    confirmText: {
+      color: colors.onAccent,
+      fontWeight: '700',
+    },
+    disabledBtn: {
+      opacity: 0.5,
+    },
+  });
+}
@@ -1,14 +1,19 @@
 import { PropsWithChildren } from 'react';
 import { StyleSheet, Text, View } from 'react-native';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
 
 interface SectionCardProps extends PropsWithChildren {
   title: string;
   subtitle?: string;
+  highlighted?: boolean;
 }
 
-export function SectionCard({ title, subtitle, children }: SectionCardProps) {
+export function SectionCard({ title, subtitle, highlighted, children }: SectionCardProps) {
+  const styles = useThemedStyles(createStyles);
+
   return (
-    <View style={styles.card}>
+    <View style={[styles.card, highlighted ? styles.cardHighlighted : null]}>
       <Text style={styles.title}>{title}</Text>
       {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
       <View style={styles.content}>{children}</View>
@@ -16,27 +21,33 @@ export function SectionCard({ title, subtitle, children }: SectionCardProps) {
   );
 }
 
-const styles = StyleSheet.create({
-  card: {
-    backgroundColor: '#fff',
-    borderRadius: 16,
-    padding: 16,
-    marginBottom: 14,
-    borderWidth: 1,
-    borderColor: '#dfe7fa',
-  },
-  title: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: '#1d2b50',
-  },
-  subtitle: {
-    fontSize: 13,
-    color: '#596887',
-    marginTop: 4,
-  },
-  content: {
-    marginTop: 12,
-    gap: 10,
-  },
-});
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      marginBottom: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    cardHighlighted: {
+      borderColor: colors.accent,
+      borderWidth: 2,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 4,
+    },
+    content: {
+      marginTop: 12,
+      gap: 10,
+    },
+  });
+}
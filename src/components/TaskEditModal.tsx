@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { BlockTask, SettingsBlock, TaskSuggestion } from '../types';
+import {
+  applyTaskSuggestion,
+  buildTaskFromDraft,
+  createTaskDraft,
+  createTaskDraftFromTask,
+  isTaskReminderValid,
+  TaskDraft,
+} from '../utils/taskDraft';
+import { ModalAction, ModalButton, ModalButtons, ModalCard, ModalDismiss } from './ModalCard';
+import { TaskImageField, TaskTitleSuggestions } from './TaskFields';
+import { TaskReminderEditor } from './TaskReminderEditor';
+
+interface TaskEditModalProps {
+  block: SettingsBlock;
+  task: BlockTask | null;
+  suggestions: TaskSuggestion[];
+  moveTargets: SettingsBlock[];
+  onClose: () => void;
+}
+
+export function TaskEditModal({ block, task, suggestions, moveTargets, onClose }: TaskEditModalProps) {
+  const [, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [draft, setDraft] = useState<TaskDraft>(createTaskDraft);
+  const [isMovePickerVisible, setIsMovePickerVisible] = useState(false);
+
+  useEffect(() => {
+    if (task) {
+      setDraft(createTaskDraftFromTask(task));
+    }
+  }, [task]);
+
+  const save = () => {
+    if (!task) {
+      return;
+    }
+
+    if (!draft.title.trim()) {
+      Alert.alert(t('alerts.titleRequired'), t('alerts.taskTitle.message'));
+      return;
+    }
+
+    if (!draft.description.trim()) {
+      Alert.alert(t('alerts.taskDescription.title'), t('alerts.taskDescription.message'));
+      return;
+    }
+
+    if (!draft.motivation.trim()) {
+      Alert.alert(t('alerts.taskMotivation.title'), t('alerts.taskMotivation.message'));
+      return;
+    }
+
+    if (!isTaskReminderValid(draft.reminders)) {
+      Alert.alert(t('alerts.taskReminders.title'), t('alerts.taskReminders.message'));
+      return;
+    }
+
+    dispatch({ type: 'updateTask', blockId: block.id, task: buildTaskFromDraft(draft, task.id) });
+    onClose();
+  };
+
+  const duplicate = () => {
+    if (!task) {
+      return;
+    }
+
+    dispatch({
+      type: 'duplicateTask',
+      blockId: block.id,
+      taskId: task.id,
+      newTaskId: `task-${Date.now()}`,
+      title: t('tasks.copyTitle', { title: task.title }),
+    });
+    onClose();
+  };
+
+  const moveTo = (toBlockId: string) => {
+    if (!task) {
+      return;
+    }
+
+    dispatch({ type: 'moveTask', fromBlockId: block.id, toBlockId, taskId: task.id });
+    setIsMovePickerVisible(false);
+    onClose();
+  };
+
+  const archive = () => {
+    if (!task) {
+      return;
+    }
+
+    dispatch({ type: 'archiveTask', blockId: block.id, taskId: task.id, archivedAt: new Date().toISOString() });
+    onClose();
+  };
+
+  const moveToTrash = () => {
+    if (!task) {
+      return;
+    }
+
+    const deletedAt = new Date();
+    dispatch({
+      type: 'deleteTask',
+      blockId: block.id,
+      taskId: task.id,
+      trashId: `trash-${deletedAt.getTime()}`,
+      deletedAt: deletedAt.toISOString(),
+    });
+    onClose();
+  };
+
+  return (
+    <ModalCard visible={Boolean(task)} title={t('tasks.editTitle')} onClose={onClose} tall>
+      <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.sectionLabel}>{t('tasks.field.title')}</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.title}
+          onChangeText={(title) => setDraft((prev) => ({ ...prev, title }))}
+          placeholder={t('tasks.titlePlaceholder')}
+        />
+        <TaskTitleSuggestions
+          suggestions={suggestions}
+          onSelect={(item) => setDraft((prev) => applyTaskSuggestion(prev, item))}
+        />
+
+        <Text style={styles.sectionLabel}>{t('tasks.field.description')}</Text>
+        <TextInput
+          style={[styles.input, styles.textarea]}
+          value={draft.description}
+          onChangeText={(description) => setDraft((prev) => ({ ...prev, description }))}
+          placeholder={t('tasks.descriptionPlaceholder')}
+          multiline
+        />
+
+        <Text style={styles.sectionLabel}>{t('tasks.motivation')}</Text>
+        <TextInput
+          style={[styles.input, styles.textarea]}
+          value={draft.motivation}
+          onChangeText={(motivation) => setDraft((prev) => ({ ...prev, motivation }))}
+          placeholder={t('tasks.motivationPlaceholder')}
+          multiline
+        />
+        <TaskImageField
+          uri={draft.motivationImageUri}
+          onChange={(motivationImageUri) => setDraft((prev) => ({ ...prev, motivationImageUri }))}
+        />
+
+        <TaskReminderEditor key={task?.id} draft={draft} onChange={setDraft} />
+      </ScrollView>
+
+      <ModalButtons>
+        <ModalButton label={t('tasks.duplicate')} onPress={duplicate} />
+        <ModalButton
+          label={t('tasks.moveToBlock')}
+          disabled={moveTargets.length === 0}
+          onPress={() => setIsMovePickerVisible(true)}
+        />
+      </ModalButtons>
+
+      <ModalButtons>
+        <ModalButton label={t('tasks.archive')} onPress={archive} />
+        <ModalButton label={t('common.delete')} danger onPress={moveToTrash} />
+      </ModalButtons>
+
+      <ModalButtons>
+        <ModalButton label={t('common.cancel')} onPress={onClose} />
+        <ModalButton label={t('common.save')} primary onPress={save} />
+      </ModalButtons>
+
+      <ModalCard
+        visible={isMovePickerVisible}
+        title={t('tasks.moveTitle')}
+        onClose={() => setIsMovePickerVisible(false)}
+      >
+        {moveTargets.map((target) => (
+          <ModalAction key={target.id} label={target.title} onPress={() => moveTo(target.id)} />
+        ))}
+        <ModalDismiss label={t('common.cancel')} onPress={() => setIsMovePickerVisible(false)} />
+      </ModalCard>
+    </ModalCard>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    scroll: {
+      maxHeight: 520,
+    },
+    scrollContent: {
+      gap: 8,
+      paddingBottom: 4,
+    },
+    sectionLabel: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+    textarea: {
+      minHeight: 110,
+      textAlignVertical: 'top',
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Image, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { TaskSuggestion } from '../types';
+import { ModalAction, ModalButton, ModalButtons, ModalCard } from './ModalCard';
+
+interface TaskTitleSuggestionsProps {
+  suggestions: TaskSuggestion[];
+  onSelect: (suggestion: TaskSuggestion) => void;
+}
+
+interface TaskImageFieldProps {
+  uri: string;
+  onChange: (uri: string) => void;
+}
+
+export function TaskTitleSuggestions({ suggestions, onSelect }: TaskTitleSuggestionsProps) {
+  const styles = useThemedStyles(createStyles);
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.chipsWrap}>
+      {suggestions.map((item) => (
+        <Pressable key={item.title} style={styles.chip} onPress={() => onSelect(item)}>
+          <Text style={styles.chipText}>{item.title}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+export function TaskImageField({ uri, onChange }: TaskImageFieldProps) {
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [input, setInput] = useState<string | null>(null);
+
+  return (
+    <>
+      <ModalAction label={t('tasks.image.upload')} onPress={() => setInput(uri)} />
+      <Text style={styles.hint}>{t('tasks.image.hint')}</Text>
+      {uri ? <Image source={{ uri }} style={styles.preview} /> : null}
+
+      <ModalCard visible={input !== null} title={t('tasks.image.title')} onClose={() => setInput(null)}>
+        <TextInput
+          style={styles.input}
+          value={input ?? ''}
+          onChangeText={setInput}
+          placeholder={t('tasks.image.placeholder')}
+        />
+        <Text style={styles.hint}>{t('tasks.image.saveHint')}</Text>
+        <ModalButtons>
+          <ModalButton label={t('common.cancel')} onPress={() => setInput(null)} />
+          <ModalButton
+            label={t('common.save')}
+            primary
+            onPress={() => {
+              onChange((input ?? '').trim());
+              setInput(null);
+            }}
+          />
+        </ModalButtons>
+      </ModalCard>
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    chipsWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 999,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+    },
+    chipText: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+      fontSize: 12,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 18,
+    },
+    preview: {
+      width: '100%',
+      height: 170,
+      borderRadius: 10,
+      backgroundColor: colors.surfaceAccent,
+      marginTop: 6,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+  });
+}
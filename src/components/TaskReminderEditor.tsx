@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { ReminderMode } from '../types';
+import { hourLabel } from '../utils/date';
+import { DEFAULT_TASK_MIN_GAP_MINUTES } from '../utils/reminders';
+import {
+  addDraftFixedTime,
+  changeDraftMinGap,
+  changeDraftTimesInWindow,
+  normalizeTimeValue,
+  removeDraftFixedTime,
+  setDraftRemindersEnabled,
+  shiftDraftWindow,
+  switchDraftReminderMode,
+  TaskDraft,
+  toggleDraftWeekday,
+} from '../utils/taskDraft';
+import { CounterRow } from './CounterRow';
+import { WeekdayPicker } from './WeekdayPicker';
+
+const MIN_GAP_STEP_MINUTES = 15;
+const REMINDER_MODES: ReminderMode[] = ['fixed', 'random'];
+
+interface TaskReminderEditorProps {
+  draft: TaskDraft;
+  onChange: (update: (draft: TaskDraft) => TaskDraft) => void;
+}
+
+export function TaskReminderEditor({ draft, onChange }: TaskReminderEditorProps) {
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [fixedTimeInput, setFixedTimeInput] = useState('');
+  const { config } = draft.reminders;
+
+  const addFixedTime = () => {
+    const normalized = normalizeTimeValue(fixedTimeInput);
+    if (!normalized) {
+      Alert.alert(t('alerts.invalidTime.title'), t('alerts.invalidTime.message'));
+      return;
+    }
+
+    onChange((prev) => addDraftFixedTime(prev, normalized));
+    setFixedTimeInput('');
+  };
+
+  return (
+    <>
+      <View style={styles.rowBetween}>
+        <Text style={styles.label}>{t('common.enableReminders')}</Text>
+        <Switch
+          value={draft.reminders.enabled}
+          onValueChange={(enabled) => onChange((prev) => setDraftRemindersEnabled(prev, enabled))}
+        />
+      </View>
+
+      {draft.reminders.enabled ? (
+        <>
+          <View style={styles.modeRow}>
+            {REMINDER_MODES.map((mode) => (
+              <Pressable
+                key={mode}
+                style={[styles.modeChip, config.mode === mode ? styles.modeChipActive : null]}
+                onPress={() => onChange((prev) => switchDraftReminderMode(prev, mode))}
+              >
+                <Text style={[styles.modeChipText, config.mode === mode ? styles.modeChipTextActive : null]}>
+                  {mode === 'fixed' ? t('tasks.mode.fixed') : t('tasks.mode.random')}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.sectionLabel}>{t('tasks.weekdays')}</Text>
+          <WeekdayPicker
+            selected={config.weekdays}
+            onToggle={(day) => onChange((prev) => toggleDraftWeekday(prev, day))}
+          />
+
+          {config.mode === 'fixed' ? (
+            <>
+              <Text style={styles.sectionLabel}>{t('tasks.fixedTimes')}</Text>
+              <View style={styles.timeInputRow}>
+                <TextInput
+                  style={[styles.input, styles.timeInput]}
+                  value={fixedTimeInput}
+                  onChangeText={setFixedTimeInput}
+                  placeholder={t('tasks.timePlaceholder')}
+                />
+                <Pressable style={styles.timeAddBtn} onPress={addFixedTime}>
+                  <Text style={styles.timeAddBtnText}>{t('common.add')}</Text>
+                </Pressable>
+              </View>
+              <View style={styles.chipsWrap}>
+                {config.times.map((time) => (
+                  <Pressable
+                    key={time}
+                    style={styles.timeChip}
+                    onPress={() => onChange((prev) => removeDraftFixedTime(prev, time))}
+                  >
+                    <Text style={styles.timeChipText}>{time} ×</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </>
+          ) : (
+            <>
+              <Text style={styles.sectionLabel}>{t('tasks.window')}</Text>
+              <CounterRow
+                label={t('common.from')}
+                value={hourLabel(config.startHour)}
+                onDecrease={() => onChange((prev) => shiftDraftWindow(prev, 'startHour', -1))}
+                onIncrease={() => onChange((prev) => shiftDraftWindow(prev, 'startHour', 1))}
+              />
+              <CounterRow
+                label={t('common.to')}
+                value={hourLabel(config.endHour)}
+                onDecrease={() => onChange((prev) => shiftDraftWindow(prev, 'endHour', -1))}
+                onIncrease={() => onChange((prev) => shiftDraftWindow(prev, 'endHour', 1))}
+              />
+              <CounterRow
+                label={t('tasks.timesInWindow')}
+                value={config.timesInWindow}
+                onDecrease={() => onChange((prev) => changeDraftTimesInWindow(prev, -1))}
+                onIncrease={() => onChange((prev) => changeDraftTimesInWindow(prev, 1))}
+              />
+              <CounterRow
+                label={t('common.minGap')}
+                value={t('common.minutes', { minutes: config.minGapMinutes ?? DEFAULT_TASK_MIN_GAP_MINUTES })}
+                onDecrease={() => onChange((prev) => changeDraftMinGap(prev, -MIN_GAP_STEP_MINUTES))}
+                onIncrease={() => onChange((prev) => changeDraftMinGap(prev, MIN_GAP_STEP_MINUTES))}
+              />
+            </>
+          )}
+        </>
+      ) : null}
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    rowBetween: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    label: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    sectionLabel: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    modeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 6,
+    },
+    modeChip: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 10,
+      paddingVertical: 10,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+    },
+    modeChipActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    modeChipText: {
+      color: colors.accentText,
+      fontWeight: '600',
+      fontSize: 12,
+    },
+    modeChipTextActive: {
+      color: colors.onAccent,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+    timeInputRow: {
+      flexDirection: 'row',
+      gap: 8,
+      alignItems: 'center',
+    },
+    timeInput: {
+      flex: 1,
+    },
+    timeAddBtn: {
+      borderRadius: 10,
+      backgroundColor: colors.accent,
+      paddingVertical: 11,
+      paddingHorizontal: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    timeAddBtnText: {
+      color: colors.onAccent,
+      fontWeight: '700',
+    },
+    chipsWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    timeChip: {
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 999,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+    },
+    timeChipText: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+      fontSize: 12,
+    },
+  });
+}
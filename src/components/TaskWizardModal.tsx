@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { TaskSuggestion } from '../types';
+import {
+  applyTaskSuggestion,
+  buildTaskFromDraft,
+  createTaskDraft,
+  isTaskReminderValid,
+  TaskDraft,
+} from '../utils/taskDraft';
+import { ModalButton, ModalButtons, ModalCard } from './ModalCard';
+import { TaskImageField, TaskTitleSuggestions } from './TaskFields';
+import { TaskReminderEditor } from './TaskReminderEditor';
+
+type TaskWizardStep = 1 | 2 | 3 | 4;
+
+interface TaskWizardModalProps {
+  blockId: string | null;
+  suggestions: TaskSuggestion[];
+  onClose: () => void;
+}
+
+function canProceed(step: TaskWizardStep, draft: TaskDraft): boolean {
+  if (step === 1) {
+    return draft.title.trim().length > 0;
+  }
+  if (step === 2) {
+    return draft.description.trim().length > 0;
+  }
+  if (step === 3) {
+    return draft.motivation.trim().length > 0;
+  }
+
+  return isTaskReminderValid(draft.reminders);
+}
+
+export function TaskWizardModal({ blockId, suggestions, onClose }: TaskWizardModalProps) {
+  const [, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [step, setStep] = useState<TaskWizardStep>(1);
+  const [draft, setDraft] = useState<TaskDraft>(createTaskDraft);
+
+  useEffect(() => {
+    if (blockId) {
+      setStep(1);
+      setDraft(createTaskDraft());
+    }
+  }, [blockId]);
+
+  const nextStep = () => {
+    if (!canProceed(step, draft)) {
+      Alert.alert(t('alerts.wizardStep.title'), t('alerts.wizardStep.message'));
+      return;
+    }
+
+    if (step === 4) {
+      if (blockId) {
+        dispatch({ type: 'addTask', blockId, task: buildTaskFromDraft(draft, `task-${Date.now()}`) });
+        onClose();
+      }
+      return;
+    }
+
+    setStep((prev) => (prev === 4 ? 4 : ((prev + 1) as TaskWizardStep)));
+  };
+
+  const prevStep = () => {
+    setStep((prev) => (prev === 1 ? 1 : ((prev - 1) as TaskWizardStep)));
+  };
+
+  return (
+    <ModalCard visible={Boolean(blockId)} title={t('onboarding.step', { step, total: 4 })} onClose={onClose}>
+      <Text style={styles.stepTitle}>
+        {step === 1
+          ? t('tasks.wizard.title')
+          : step === 2
+            ? t('tasks.wizard.description')
+            : step === 3
+              ? t('tasks.motivation')
+              : t('settings.reminders.title')}
+      </Text>
+
+      {step === 1 ? (
+        <>
+          <TextInput
+            style={styles.input}
+            value={draft.title}
+            onChangeText={(title) => setDraft((prev) => ({ ...prev, title }))}
+            placeholder={t('tasks.titlePlaceholder')}
+          />
+          <TaskTitleSuggestions
+            suggestions={suggestions}
+            onSelect={(item) => setDraft((prev) => applyTaskSuggestion(prev, item))}
+          />
+        </>
+      ) : null}
+
+      {step === 2 ? (
+        <TextInput
+          style={[styles.input, styles.textarea]}
+          value={draft.description}
+          onChangeText={(description) => setDraft((prev) => ({ ...prev, description }))}
+          placeholder={t('tasks.descriptionPlaceholder')}
+          multiline
+        />
+      ) : null}
+
+      {step === 3 ? (
+        <>
+          <TextInput
+            style={[styles.input, styles.textarea]}
+            value={draft.motivation}
+            onChangeText={(motivation) => setDraft((prev) => ({ ...prev, motivation }))}
+            placeholder={t('tasks.motivationPlaceholder')}
+            multiline
+          />
+          <TaskImageField
+            uri={draft.motivationImageUri}
+            onChange={(motivationImageUri) => setDraft((prev) => ({ ...prev, motivationImageUri }))}
+          />
+        </>
+      ) : null}
+
+      {step === 4 ? <TaskReminderEditor draft={draft} onChange={setDraft} /> : null}
+
+      <ModalButtons>
+        <ModalButton
+          label={step === 1 ? t('common.cancel') : t('common.back')}
+          onPress={step === 1 ? onClose : prevStep}
+        />
+        <ModalButton label={step === 4 ? t('tasks.create') : t('common.next')} primary onPress={nextStep} />
+      </ModalButtons>
+    </ModalCard>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    stepTitle: {
+      color: colors.textMuted,
+      fontWeight: '600',
+      marginBottom: 2,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+    textarea: {
+      minHeight: 110,
+      textAlignVertical: 'top',
+    },
+  });
+}
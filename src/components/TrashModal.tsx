@@ -0,0 +1,154 @@
+import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { TrashItem } from '../types';
+import { Clock } from '../utils/clock';
+import { dateKeyOf, displayDate } from '../utils/date';
+import { canRestoreTrashItem, TRASH_RETENTION_DAYS, trashDaysLeft, trashItemTitle } from '../utils/trash';
+import { ModalButton, ModalButtons, ModalCard } from './ModalCard';
+
+interface TrashModalProps {
+  visible: boolean;
+  clock: Clock;
+  onClose: () => void;
+}
+
+export function TrashModal({ visible, clock, onClose }: TrashModalProps) {
+  const [state, dispatch] = useAppStore();
+  const { locale, t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+
+  const restore = (item: TrashItem) => {
+    if (!canRestoreTrashItem(state, item)) {
+      Alert.alert(
+        t('alerts.restore.title'),
+        item.kind === 'task' ? t('alerts.restore.task') : t('alerts.restore.block'),
+      );
+      return;
+    }
+
+    dispatch({ type: 'restoreTrashItem', trashId: item.id });
+  };
+
+  const deleteForever = (item: TrashItem) => {
+    Alert.alert(t('alerts.deleteForever.title'), t('alerts.deleteForever.message', { title: trashItemTitle(item) }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => dispatch({ type: 'deleteTrashItem', trashId: item.id }),
+      },
+    ]);
+  };
+
+  const empty = () => {
+    Alert.alert(t('alerts.emptyTrash.title'), t('alerts.emptyTrash.message'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('alerts.emptyTrash.confirm'), style: 'destructive', onPress: () => dispatch({ type: 'emptyTrash' }) },
+    ]);
+  };
+
+  return (
+    <ModalCard visible={visible} title={t('backup.section.trash')} onClose={onClose} tall>
+      <Text style={styles.hint}>{t('trash.hint', { days: t('common.days', { count: TRASH_RETENTION_DAYS }) })}</Text>
+      <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+        {state.trash.length === 0 ? <Text style={styles.empty}>{t('trash.empty')}</Text> : null}
+        {[...state.trash].reverse().map((item) => (
+          <View key={item.id} style={styles.card}>
+            <Text style={styles.cardTitle}>{trashItemTitle(item)}</Text>
+            <Text style={styles.cardText}>
+              {item.kind === 'task'
+                ? t('trash.task', {
+                    block:
+                      state.settingsBlocks.find((block) => block.id === item.blockId)?.title ?? t('trash.blockDeleted'),
+                  })
+                : t('trash.block', { tasks: t('common.tasks', { count: item.tasks.length }) })}
+            </Text>
+            <Text style={styles.hint}>
+              {t('trash.deletedAt', {
+                date: displayDate(dateKeyOf(item.deletedAt, clock), locale),
+                days: t('common.days', { count: trashDaysLeft(item, clock.now()) }),
+              })}
+            </Text>
+            <View style={styles.cardActions}>
+              <Pressable style={styles.cardBtn} onPress={() => restore(item)}>
+                <Text style={styles.cardBtnText}>{t('trash.restore')}</Text>
+              </Pressable>
+              <Pressable style={styles.cardBtn} onPress={() => deleteForever(item)}>
+                <Text style={[styles.cardBtnText, styles.dangerText]}>{t('trash.deleteForever')}</Text>
+              </Pressable>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+      <ModalButtons>
+        <ModalButton label={t('common.close')} onPress={onClose} />
+        {state.trash.length > 0 ? <ModalButton label={t('alerts.emptyTrash.confirm')} danger onPress={empty} /> : null}
+      </ModalButtons>
+    </ModalCard>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 18,
+    },
+    scroll: {
+      maxHeight: 520,
+    },
+    scrollContent: {
+      gap: 8,
+      paddingBottom: 4,
+    },
+    empty: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    card: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      backgroundColor: colors.surfaceMuted,
+      padding: 12,
+      gap: 6,
+    },
+    cardTitle: {
+      color: colors.text,
+      fontSize: 17,
+      fontWeight: '800',
+    },
+    cardText: {
+      color: colors.textSecondary,
+      lineHeight: 19,
+    },
+    cardActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    cardBtn: {
+      alignSelf: 'flex-start',
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 999,
+      paddingVertical: 7,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surface,
+      marginTop: 4,
+    },
+    cardBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+      fontSize: 13,
+    },
+    dangerText: {
+      color: colors.danger,
+    },
+  });
+}
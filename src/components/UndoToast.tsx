@@ -0,0 +1,54 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+
+interface UndoToastProps {
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+}
+
+export function UndoToast({ message, actionLabel, onAction }: UndoToastProps) {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.toast}>
+      <Text style={styles.message}>{message}</Text>
+      <Pressable style={styles.actionBtn} onPress={onAction}>
+        <Text style={styles.actionText}>{actionLabel}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    toast: {
+      position: 'absolute',
+      left: 16,
+      right: 16,
+      bottom: 24,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 12,
+      borderRadius: 14,
+      paddingVertical: 12,
+      paddingHorizontal: 14,
+      backgroundColor: colors.inverseSurface,
+    },
+    message: {
+      flex: 1,
+      color: colors.onInverse,
+      fontWeight: '600',
+    },
+    actionBtn: {
+      paddingVertical: 4,
+      paddingHorizontal: 8,
+    },
+    actionText: {
+      color: colors.inverseAccent,
+      fontWeight: '800',
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { useI18n } from '../i18n/context';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { WeekdayKey } from '../types';
+import { WEEK_DAYS, weekdayLabel } from '../utils/date';
+
+interface WeekdayPickerProps {
+  selected: WeekdayKey[];
+  onToggle: (day: WeekdayKey) => void;
+}
+
+export function WeekdayPicker({ selected, onToggle }: WeekdayPickerProps) {
+  const { locale } = useI18n();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.row}>
+      {WEEK_DAYS.map((day) => {
+        const active = selected.includes(day);
+        return (
+          <Pressable key={day} style={[styles.chip, active ? styles.chipActive : null]} onPress={() => onToggle(day)}>
+            <Text style={[styles.chipText, active ? styles.chipTextActive : null]}>{weekdayLabel(day, locale)}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      width: 42,
+      height: 36,
+      borderRadius: 9,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    chipText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { LOCALES, MessageKey, translator } from '../i18n';
+import { TemplateBlockKind } from '../types';
+
+export const BASE_SETTINGS_BLOCKS: { kind: TemplateBlockKind; color: string }[] = [
+  { kind: 'traits', color: '#eef4ff' },
+  { kind: 'emotions', color: '#eefaf5' },
+  { kind: 'habits', color: '#fff8eb' },
+  { kind: 'values', color: '#f5f0ff' },
+];
+
+export const BLOCK_TITLE_SUGGESTIONS: Record<TemplateBlockKind, MessageKey[]> = {
+  traits: [
+    'suggestions.traits.calmReaction',
+    'suggestions.traits.smallDiscipline',
+    'suggestions.traits.confidentTone',
+    'suggestions.traits.focus',
+  ],
+  habits: [
+    'suggestions.habits.morningExercise',
+    'suggestions.habits.reading',
+    'suggestions.habits.dayPlan',
+    'suggestions.habits.earlyBed',
+  ],
+  emotions: [
+    'suggestions.emotions.pause',
+    'suggestions.emotions.irritation',
+    'suggestions.emotions.relaxation',
+    'suggestions.emotions.anxiety',
+  ],
+  values: [
+    'suggestions.values.honesty',
+    'suggestions.values.respect',
+    'suggestions.values.consistency',
+    'suggestions.values.responsibility',
+  ],
+};
+
+// A template block still carrying the default title of any language was never renamed, so it follows the app language.
+export function isDefaultBlockTitle(kind: TemplateBlockKind, title: string): boolean {
+  return LOCALES.some((locale) => translator(locale)(`blocks.${kind}`) === title);
+}
+
+export const CUSTOM_BLOCK_COLORS = ['#f0f6ff', '#fff6ef', '#effaf2', '#fff0f6', '#f7f3ff'];
+
+export const DARK_BLOCK_COLORS: Record<string, string> = {
+  '#eef4ff': '#1e2a4a',
+  '#eefaf5': '#18332b',
+  '#fff8eb': '#3a301c',
+  '#f5f0ff': '#2c2348',
+  '#f0f6ff': '#1c2b48',
+  '#fff6ef': '#3b2a1f',
+  '#effaf2': '#1a3324',
+  '#fff0f6': '#3b2030',
+  '#f7f3ff': '#2a2545',
+};
@@ -0,0 +1,73 @@
+import { Translate } from '../i18n';
+import { AppState } from '../types';
+import { BASE_SETTINGS_BLOCKS } from './blocks';
+
+export const defaultState: AppState = {
+  goals: [],
+  reminderSettings: {
+    enabled: false,
+    timesPerDay: 3,
+    startHour: 9,
+    endHour: 21,
+    minGapMinutes: 60,
+    adaptive: true,
+  },
+  reminderPause: {
+    quietHours: {
+      enabled: false,
+      startHour: 22,
+      endHour: 8,
+    },
+    mutedWeekdays: [],
+    vacation: null,
+  },
+  timeSettings: {
+    homeTimeZone: null,
+    dayEndHour: 0,
+  },
+  customGoalCategories: [],
+  templatePacks: [],
+  checkins: [],
+  checkinSettings: {
+    backfillDays: 7,
+    reminder: {
+      enabled: false,
+      time: '21:00',
+      weekdays: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'],
+    },
+  },
+  profile: {
+    name: '',
+    onboardingCompleted: false,
+    isPremium: false,
+    language: null,
+    theme: 'system',
+  },
+  settingsBlocks: [
+    { id: 'traits', kind: 'traits', title: 'Черты характера', color: '#eef4ff' },
+    { id: 'emotions', kind: 'emotions', title: 'Эмоции', color: '#eefaf5' },
+    { id: 'habits', kind: 'habits', title: 'Привычки', color: '#fff8eb' },
+    { id: 'values', kind: 'values', title: 'Ценности и убеждения', color: '#f5f0ff' },
+  ],
+  sectionNotes: {
+    emotions: '',
+    habits: '',
+    values: '',
+  },
+  sectionTasks: {},
+  taskCompletions: [],
+  taskSkips: [],
+  trash: [],
+};
+
+export function localizedDefaultState(t: Translate): AppState {
+  return {
+    ...defaultState,
+    settingsBlocks: BASE_SETTINGS_BLOCKS.map(({ kind, color }) => ({
+      id: kind,
+      kind,
+      title: t(`blocks.${kind}`),
+      color,
+    })),
+  };
+}
@@ -0,0 +1,14 @@
+import healthPackEn from '../../assets/packs/health.en.json';
+import healthPackRu from '../../assets/packs/health.ru.json';
+import { Locale, TemplatePack } from '../types';
+import { normalizeTemplatePack } from '../utils/templatePacks';
+
+function bundle(...raw: Record<string, unknown>[]): TemplatePack[] {
+  return raw.flatMap((pack) => normalizeTemplatePack(pack) ?? []);
+}
+
+// Each locale bundles the same packs under the same ids, so an installed pack is hidden in every language.
+export const BUNDLED_PACKS: Record<Locale, TemplatePack[]> = {
+  ru: bundle(healthPackRu),
+  en: bundle(healthPackEn),
+};
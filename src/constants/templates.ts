@@ -1,10 +1,11 @@
-import { GoalTemplate } from '../types';
+import { GoalTemplate, Locale } from '../types';
 
-export const GOAL_TEMPLATES: GoalTemplate[] = [
+const RU_GOAL_TEMPLATES: GoalTemplate[] = [
   {
     id: 'calmness',
     title: 'Спокойствие',
     description: 'Меньше импульсивных реакций, больше пауз перед ответом.',
+    color: '#4f8fd8',
     reminders: [
       'Сделай паузу 3 секунды перед ответом.',
       '3 глубоких вдоха перед сложным разговором.',
@@ -15,6 +16,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     id: 'discipline',
     title: 'Дисциплина',
     description: 'Делать полезное вовремя, даже без мотивации.',
+    color: '#e08a2e',
     reminders: [
       'Сначала 15 минут важной задачи, потом всё остальное.',
       'Мини-шаг сейчас лучше идеального плана позже.',
@@ -25,6 +27,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     id: 'kindness',
     title: 'Доброжелательность',
     description: 'Улучшать общение и снижать конфликтность.',
+    color: '#2f9e6e',
     reminders: [
       'Сначала факт, потом просьба — без обвинений.',
       'Один добрый комментарий сегодня.',
@@ -35,6 +38,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     id: 'focus',
     title: 'Фокус',
     description: 'Меньше отвлечений, больше глубокой работы.',
+    color: '#7a5af5',
     reminders: [
       'Закрой лишние вкладки на 20 минут.',
       'Отключи уведомления и заверши один блок работы.',
@@ -45,6 +49,7 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     id: 'punctuality',
     title: 'Пунктуальность',
     description: 'Приходить и сдавать задачи вовремя.',
+    color: '#c2417a',
     reminders: [
       'Подготовься заранее: -10 минут к дедлайну.',
       'Уточни следующий шаг прямо сейчас.',
@@ -52,3 +57,68 @@ export const GOAL_TEMPLATES: GoalTemplate[] = [
     ]
   }
 ];
+
+const EN_GOAL_TEMPLATES: GoalTemplate[] = [
+  {
+    id: 'calmness',
+    title: 'Calmness',
+    description: 'Fewer impulsive reactions, more pauses before answering.',
+    color: '#4f8fd8',
+    reminders: [
+      'Pause for 3 seconds before you answer.',
+      '3 deep breaths before a difficult conversation.',
+      'A calm tone = a strong position.'
+    ]
+  },
+  {
+    id: 'discipline',
+    title: 'Discipline',
+    description: 'Do useful things on time, even without motivation.',
+    color: '#e08a2e',
+    reminders: [
+      '15 minutes on the important task first, everything else later.',
+      'A small step now beats a perfect plan later.',
+      'Ask yourself: what will bring results today?'
+    ]
+  },
+  {
+    id: 'kindness',
+    title: 'Kindness',
+    description: 'Communicate better and argue less.',
+    color: '#2f9e6e',
+    reminders: [
+      'Facts first, then the request — no blaming.',
+      'One kind comment today.',
+      'Check your tone: you are solving a problem, not winning an argument.'
+    ]
+  },
+  {
+    id: 'focus',
+    title: 'Focus',
+    description: 'Fewer distractions, more deep work.',
+    color: '#7a5af5',
+    reminders: [
+      'Close extra tabs for 20 minutes.',
+      'Turn off notifications and finish one block of work.',
+      'One priority = real progress.'
+    ]
+  },
+  {
+    id: 'punctuality',
+    title: 'Punctuality',
+    description: 'Arrive and deliver on time.',
+    color: '#c2417a',
+    reminders: [
+      'Prepare in advance: aim 10 minutes before the deadline.',
+      'Clarify the next step right now.',
+      'An early start takes the stress away.'
+    ]
+  }
+];
+
+export const GOAL_TEMPLATES: Record<Locale, GoalTemplate[]> = {
+  ru: RU_GOAL_TEMPLATES,
+  en: EN_GOAL_TEMPLATES,
+};
+
+export const CUSTOM_GOAL_COLORS = ['#4169e1', '#1f9bb5', '#2f9e6e', '#e08a2e', '#c2417a', '#7a5af5'];
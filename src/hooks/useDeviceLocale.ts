@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { deviceLocale } from '../i18n';
+import { Locale } from '../types';
+
+export function useDeviceLocale(): Locale {
+  const [locale, setLocale] = useState(deviceLocale);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'active') {
+        setLocale(deviceLocale());
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  return locale;
+}
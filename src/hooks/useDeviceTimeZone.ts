@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { deviceTimeZone } from '../utils/clock';
+
+export function useDeviceTimeZone(): string {
+  const [timeZone, setTimeZone] = useState(deviceTimeZone);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'active') {
+        setTimeZone(deviceTimeZone());
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  return timeZone;
+}
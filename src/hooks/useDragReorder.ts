@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Animated, PanResponder } from 'react-native';
+import { clamp } from '../utils/math';
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  if (!moved) {
+    return items;
+  }
+
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export function useDragReorder<T extends { id: string }>(itemStep: number) {
+  const [isReorderMode, setIsReorderMode] = useState(false);
+  const [draftItems, setDraftItems] = useState<T[]>([]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOriginIndex, setDragOriginIndex] = useState(0);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const draggingRef = useRef<string | null>(null);
+  const baseItemsRef = useRef<T[]>([]);
+  const originIndexRef = useRef(0);
+  const targetIndexRef = useRef(0);
+
+  useEffect(() => {
+    draggingRef.current = draggingId;
+  }, [draggingId]);
+
+  const finishDrag = useCallback(() => {
+    if (!draggingRef.current) {
+      return;
+    }
+
+    const finalItems = moveItem(baseItemsRef.current, originIndexRef.current, targetIndexRef.current);
+    baseItemsRef.current = finalItems;
+    setDraftItems(finalItems);
+    setDraggingId(null);
+    draggingRef.current = null;
+    dragY.setValue(0);
+  }, [dragY]);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => Boolean(draggingRef.current),
+        onMoveShouldSetPanResponder: () => Boolean(draggingRef.current),
+        onPanResponderMove: (_, gestureState) => {
+          if (!draggingRef.current || baseItemsRef.current.length <= 1) {
+            return;
+          }
+
+          dragY.setValue(gestureState.dy);
+          const nextIndex = clamp(
+            originIndexRef.current + Math.round(gestureState.dy / itemStep),
+            0,
+            baseItemsRef.current.length - 1,
+          );
+
+          if (nextIndex === targetIndexRef.current) {
+            return;
+          }
+
+          targetIndexRef.current = nextIndex;
+          setDraftItems(moveItem(baseItemsRef.current, originIndexRef.current, nextIndex));
+        },
+        onPanResponderRelease: finishDrag,
+        onPanResponderTerminate: finishDrag,
+      }),
+    [dragY, finishDrag, itemStep],
+  );
+
+  const startDrag = (items: T[], id: string) => {
+    const source = isReorderMode ? draftItems : items;
+    const startIndex = source.findIndex((item) => item.id === id);
+    if (startIndex === -1) {
+      return;
+    }
+
+    if (!isReorderMode) {
+      setIsReorderMode(true);
+      setDraftItems(source);
+    }
+
+    baseItemsRef.current = source;
+    originIndexRef.current = startIndex;
+    targetIndexRef.current = startIndex;
+    setDragOriginIndex(startIndex);
+    setDraggingId(id);
+    draggingRef.current = id;
+    dragY.setValue(0);
+  };
+
+  const startDragFromPress = (id: string) => {
+    if (!isReorderMode || draggingId === id) {
+      return;
+    }
+
+    startDrag(draftItems, id);
+  };
+
+  const enterReorderMode = (items: T[]) => {
+    baseItemsRef.current = items;
+    setDraftItems(items);
+    setIsReorderMode(true);
+  };
+
+  const reset = () => {
+    setIsReorderMode(false);
+    setDraftItems([]);
+    setDraggingId(null);
+    draggingRef.current = null;
+    dragY.setValue(0);
+  };
+
+  const commit = (): T[] | null => {
+    if (!isReorderMode) {
+      return null;
+    }
+
+    if (draggingRef.current) {
+      finishDrag();
+    }
+
+    const ordered = baseItemsRef.current;
+    reset();
+    return ordered.length ? ordered : null;
+  };
+
+  return {
+    isReorderMode,
+    draftItems,
+    draggingId,
+    dragOriginIndex,
+    dragY,
+    panHandlers: panResponder.panHandlers,
+    startDrag,
+    startDragFromPress,
+    enterReorderMode,
+    finishDrag,
+    commit,
+    reset,
+  };
+}
+
+export type DragReorder<T extends { id: string }> = ReturnType<typeof useDragReorder<T>>;
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+export function useForegroundCount(): number {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    let previous = AppState.currentState;
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (previous !== 'active' && next === 'active') {
+        setCount((value) => value + 1);
+      }
+      previous = next;
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  return count;
+}
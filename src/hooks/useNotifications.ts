@@ -1,92 +1,592 @@
-import { useCallback } from 'react';
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
-import { GOAL_TEMPLATES } from '../constants/templates';
-import { ReminderSettings, UserGoal } from '../types';
+import * as TaskManager from 'expo-task-manager';
+import { MessageKey, Translate } from '../i18n';
+import { appStore } from '../store';
+import {
+  BlockTask,
+  CheckinReminderSettings,
+  DailyCheckin,
+  NotificationLogEntry,
+  NotificationSource,
+  PendingTaskAction,
+  ReminderPauseSettings,
+  ReminderSettings,
+  TaskCompletion,
+  TaskSkip,
+  UserGoal,
+} from '../types';
+import { adaptiveHourWeights, buildAdaptiveTimingReport } from '../utils/adaptiveTiming';
+import { Clock, createClock } from '../utils/clock';
+import { dateKeyOf, nextNDays, todayKey } from '../utils/date';
+import {
+  addPlannedNotifications,
+  dropPlannedNotifications,
+  markNotificationDelivered,
+  markNotificationResponded,
+  markNotificationSuppressed,
+  settleNotificationLog,
+} from '../utils/notificationLog';
+import {
+  checkinReminderDates,
+  goalReminderDates,
+  rotateReminderTexts,
+  taskReminderDates,
+} from '../utils/reminders';
+import { isReminderPaused } from '../utils/reminderPause';
+import {
+  loadNotificationLog,
+  loadPendingTaskActions,
+  saveNotificationLog,
+  savePendingTaskActions,
+} from '../utils/storage';
+import { findCompletion, isTaskSkipped } from '../utils/tasks';
+
+interface NotificationData {
+  source?: NotificationSource;
+  taskId?: string;
+  date?: string;
+}
+
+const TASK_CATEGORY = 'task-reminder';
+const RESPONSE_TASK = 'notification-response';
+const ACTION_DONE = 'done';
+const ACTION_SNOOZE = 'snooze';
+const ACTION_SKIP = 'skip';
+const SNOOZE_MINUTES = 15;
+const TEST_DELAY_SECONDS = 5;
+const HORIZON_DAYS = 14;
+// iOS keeps at most 64 pending notifications per app: the nearest reminders of every kind share one budget and a few
+// slots stay free for snoozes and test notifications.
+const NOTIFICATION_BUDGET = 60;
+
+const ACTION_LABELS: Record<string, MessageKey> = {
+  [Notifications.DEFAULT_ACTION_IDENTIFIER]: 'notifications.action.opened',
+  [ACTION_DONE]: 'notifications.action.done',
+  [ACTION_SNOOZE]: 'notifications.action.snoozed',
+  [ACTION_SKIP]: 'notifications.action.skipped',
+};
+
+export interface ScheduledNotificationInfo {
+  id: string;
+  title: string;
+  body: string;
+  source?: NotificationSource;
+  taskId?: string;
+  triggerType: string;
+  fireAt: string | null;
+}
+
+function notificationData(notification: Notifications.Notification): NotificationData {
+  return (notification.request.content.data ?? {}) as NotificationData;
+}
+
+function isTaskSource(source: NotificationSource | undefined): boolean {
+  return source === 'task' || source === 'snooze';
+}
+
+function isTaskSettledOn(taskId: string, dateKey: string): boolean {
+  const state = appStore.getState();
+  return (
+    Boolean(findCompletion(state.taskCompletions, taskId, dateKey)) || isTaskSkipped(state.taskSkips, taskId, dateKey)
+  );
+}
+
+function isCheckinDone(dateKey: string): boolean {
+  return appStore.getState().checkins.some((item) => item.date === dateKey);
+}
+
+function currentClock(): Clock {
+  return createClock(appStore.getState().timeSettings);
+}
+
+function notificationDateKey(notification: Notifications.Notification): string {
+  return dateKeyOf(new Date(notification.date).toISOString(), currentClock());
+}
+
+function logEntryOf(notification: Notifications.Notification): NotificationLogEntry {
+  const data = notificationData(notification);
+  return {
+    id: notification.request.identifier,
+    source: data.source ?? 'goal',
+    ...(data.taskId ? { taskId: data.taskId } : {}),
+    scheduledAt: new Date(notification.date).toISOString(),
+  };
+}
+
+function isSuppressed(notification: Notifications.Notification): boolean {
+  const data = notificationData(notification);
+  return (
+    (data.source !== 'test' && isReminderPaused(appStore.getState().reminderPause, new Date(), currentClock())) ||
+    (data.source === 'checkin'
+      ? isCheckinDone(data.date ?? notificationDateKey(notification))
+      : isTaskSource(data.source) &&
+        data.taskId !== undefined &&
+        isTaskSettledOn(data.taskId, notificationDateKey(notification)))
+  );
+}
 
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldShowBanner: true,
-    shouldShowList: true,
-    shouldPlaySound: false,
-    shouldSetBadge: false,
-  }),
+  handleNotification: async (notification) => {
+    const settled = isSuppressed(notification);
+    return {
+      shouldShowAlert: !settled,
+      shouldShowBanner: !settled,
+      shouldShowList: !settled,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    };
+  },
 });
 
-function randomReminder(goals: UserGoal[]): string {
-  if (goals.length === 0) {
-    return 'Сделай небольшой полезный шаг прямо сейчас.';
+let queue: Promise<void> = Promise.resolve();
+
+function enqueue(job: () => Promise<void>): Promise<void> {
+  queue = queue.then(job, job);
+  return queue;
+}
+
+let notificationLog: NotificationLogEntry[] | null = null;
+let logQueue: Promise<void> = Promise.resolve();
+
+function updateLog(update: (log: NotificationLogEntry[]) => NotificationLogEntry[]): Promise<NotificationLogEntry[]> {
+  const job = async () => {
+    const current = notificationLog ?? (await loadNotificationLog());
+    notificationLog = settleNotificationLog(update(current), new Date());
+    await saveNotificationLog(notificationLog);
+  };
+  logQueue = logQueue.then(job, job);
+  return logQueue.then(() => notificationLog ?? []);
+}
+
+export function getNotificationLog(): Promise<NotificationLogEntry[]> {
+  return updateLog((log) => log);
+}
+
+export function notificationActionLabel(action: string, t: Translate): string {
+  const key = ACTION_LABELS[action];
+  return key ? t(key, { minutes: SNOOZE_MINUTES }) : action;
+}
+
+export async function registerNotificationActions(t: Translate): Promise<void> {
+  if (Platform.OS === 'web') {
+    return;
   }
 
-  const goal = goals[Math.floor(Math.random() * goals.length)];
-  const template = GOAL_TEMPLATES.find((item) => item.id === goal?.category);
-  const fallback = goal?.customAction || 'Выбери полезное действие на этот час.';
+  await Notifications.setNotificationCategoryAsync(TASK_CATEGORY, [
+    { identifier: ACTION_DONE, buttonTitle: t('notifications.button.done'), options: { opensAppToForeground: false } },
+    {
+      identifier: ACTION_SNOOZE,
+      buttonTitle: t('notifications.button.snooze', { minutes: SNOOZE_MINUTES }),
+      options: { opensAppToForeground: false },
+    },
+    {
+      identifier: ACTION_SKIP,
+      buttonTitle: t('notifications.button.skip'),
+      options: { opensAppToForeground: false, isDestructive: true },
+    },
+  ]);
+}
+
+function triggerType(trigger: Notifications.NotificationTrigger): string {
+  return trigger && 'type' in trigger ? String(trigger.type) : 'unknown';
+}
+
+function triggerDate(trigger: Notifications.NotificationTrigger): string | null {
+  const { value, date } = trigger as { value?: unknown; date?: unknown };
+  const raw = value ?? date;
+  return typeof raw === 'number' || raw instanceof Date ? new Date(raw).toISOString() : null;
+}
 
-  if (!template || template.reminders.length === 0) {
-    return fallback;
+export async function getScheduledNotifications(): Promise<ScheduledNotificationInfo[]> {
+  if (Platform.OS === 'web') {
+    return [];
   }
 
-  return template.reminders[Math.floor(Math.random() * template.reminders.length)] ?? fallback;
+  const [scheduled, log] = await Promise.all([Notifications.getAllScheduledNotificationsAsync(), getNotificationLog()]);
+  const plannedAt = new Map(log.filter((entry) => !entry.deliveredAt).map((entry) => [entry.id, entry.scheduledAt]));
+
+  return scheduled
+    .map((request) => {
+      const data = (request.content.data ?? {}) as NotificationData;
+      return {
+        id: request.identifier,
+        title: request.content.title ?? '',
+        body: request.content.body ?? '',
+        ...(data.source ? { source: data.source } : {}),
+        ...(data.taskId ? { taskId: data.taskId } : {}),
+        triggerType: triggerType(request.trigger),
+        fireAt: plannedAt.get(request.identifier) ?? triggerDate(request.trigger),
+      };
+    })
+    .sort((a, b) => (a.fireAt ?? '').localeCompare(b.fireAt ?? ''));
 }
 
-function normalizeHour(value: number): number {
-  return Math.max(0, Math.min(23, Math.floor(value)));
+async function ensurePermissions(): Promise<boolean> {
+  const permissions = await Notifications.getPermissionsAsync();
+  const granted = permissions.granted || permissions.ios?.status === Notifications.IosAuthorizationStatus.PROVISIONAL;
+  if (granted) {
+    return true;
+  }
+
+  const request = await Notifications.requestPermissionsAsync();
+  return request.granted;
 }
 
-export function useNotifications() {
-  const setupNotifications = useCallback(async (settings: ReminderSettings, goals: UserGoal[]) => {
-    await Notifications.cancelAllScheduledNotificationsAsync();
+async function cancelNotifications(ids: string[]) {
+  await Promise.all(ids.map((id) => Notifications.cancelScheduledNotificationAsync(id)));
+  if (ids.length > 0) {
+    await updateLog((log) => dropPlannedNotifications(log, new Set(ids)));
+  }
+}
 
-    if (!settings.enabled || goals.length === 0) {
-      return;
-    }
+interface DateRequest {
+  content: Notifications.NotificationContentInput;
+  date: Date;
+}
+
+async function scheduleAt(requests: DateRequest[], pause: ReminderPauseSettings | null, clock = currentClock()) {
+  const planned: NotificationLogEntry[] = [];
+  const allowed = requests.filter((request) => !pause || !isReminderPaused(pause, request.date, clock));
+
+  for (const { content, date } of allowed) {
+    const data = content.data as NotificationData;
+    const id = await Notifications.scheduleNotificationAsync({
+      content,
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date,
+      },
+    });
+    planned.push({
+      id,
+      source: data.source ?? 'goal',
+      ...(data.taskId ? { taskId: data.taskId } : {}),
+      scheduledAt: date.toISOString(),
+    });
+  }
+
+  if (planned.length === 0) {
+    return;
+  }
+
+  // iOS silently drops requests beyond its pending limit; only log what the system kept.
+  const kept = new Set((await Notifications.getAllScheduledNotificationsAsync()).map((request) => request.identifier));
+  await updateLog((log) => addPlannedNotifications(log, planned.filter((entry) => kept.has(entry.id))));
+}
+
+function taskContent(task: BlockTask): Notifications.NotificationContentInput {
+  return {
+    title: task.title,
+    body: task.motivation || task.description,
+    data: { source: 'task', taskId: task.id },
+    categoryIdentifier: TASK_CATEGORY,
+  };
+}
+
+export interface NotificationPlanInput {
+  settings: ReminderSettings;
+  goals: UserGoal[];
+  goalTexts: string[];
+  tasks: BlockTask[];
+  taskCompletions: TaskCompletion[];
+  taskSkips: TaskSkip[];
+  checkinReminder: CheckinReminderSettings;
+  checkins: DailyCheckin[];
+  pause: ReminderPauseSettings;
+  clock: Clock;
+  t: Translate;
+}
+
+async function goalRequests(
+  { settings, goals, goalTexts, clock, t }: NotificationPlanInput,
+  days: string[],
+): Promise<DateRequest[]> {
+  if (!settings.enabled || goals.length === 0) {
+    return [];
+  }
 
-    const permissions = await Notifications.getPermissionsAsync();
-    const granted = permissions.granted || permissions.ios?.status === Notifications.IosAuthorizationStatus.PROVISIONAL;
+  const report = buildAdaptiveTimingReport(await getNotificationLog(), settings, clock);
+  const dates = goalReminderDates(settings, days, clock, adaptiveHourWeights(report));
+  const bodies = rotateReminderTexts(goalTexts, dates.length);
+  return dates.map((date, index) => ({
+    content: { title: t('notifications.goal.title'), body: bodies[index] ?? '', data: { source: 'goal' } },
+    date,
+  }));
+}
+
+function taskRequests(
+  { tasks, taskCompletions, taskSkips, clock }: NotificationPlanInput,
+  days: string[],
+): DateRequest[] {
+  return tasks.flatMap((task) =>
+    taskReminderDates(task.id, task.reminders, days, clock)
+      .filter((date) => {
+        const dateKey = dateKeyOf(date.toISOString(), clock);
+        return !findCompletion(taskCompletions, task.id, dateKey) && !isTaskSkipped(taskSkips, task.id, dateKey);
+      })
+      .map((date) => ({ content: taskContent(task), date })),
+  );
+}
+
+function checkinRequests({ checkinReminder, checkins, clock, t }: NotificationPlanInput, days: string[]): DateRequest[] {
+  const dates = checkinReminderDates(checkinReminder, days, new Set(checkins.map((item) => item.date)), clock);
+  return dates.map((date) => ({
+    content: {
+      title: t('notifications.checkin.title'),
+      body: t('notifications.checkin.body'),
+      data: { source: 'checkin', date: dateKeyOf(date.toISOString(), clock) },
+    },
+    date,
+  }));
+}
+
+// Goal texts rotate randomly, so a goal reminder matches by its time alone and keeps its text while that text is
+// still in the pool.
+function planKey(
+  data: NotificationData,
+  fireAt: string | null,
+  content: Pick<Notifications.NotificationContentInput, 'title' | 'body'>,
+): string {
+  const source = data.source ?? 'goal';
+  const body = source === 'goal' ? '' : (content.body ?? '');
+  return [source, data.taskId ?? '', fireAt ?? '', content.title ?? '', body].join('\u0000');
+}
+
+export function syncNotifications(input: NotificationPlanInput): Promise<void> {
+  return enqueue(async () => {
+    const { tasks, goalTexts, pause, clock } = input;
+    const days = nextNDays(HORIZON_DAYS, todayKey(clock));
+    const requests = [...(await goalRequests(input, days)), ...taskRequests(input, days), ...checkinRequests(input, days)]
+      .filter(({ date }) => !isReminderPaused(pause, date, clock))
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(0, NOTIFICATION_BUDGET);
 
-    if (!granted) {
-      const request = await Notifications.requestPermissionsAsync();
-      if (!request.granted) {
-        return;
+    const [scheduled, log] = await Promise.all([Notifications.getAllScheduledNotificationsAsync(), getNotificationLog()]);
+    const plannedAt = new Map(log.filter((entry) => !entry.deliveredAt).map((entry) => [entry.id, entry.scheduledAt]));
+    const taskIds = new Set(tasks.map((task) => task.id));
+    const texts = new Set(goalTexts);
+    const stale: string[] = [];
+    const current = new Map<string, string[]>();
+    for (const request of scheduled) {
+      const data = (request.content.data ?? {}) as NotificationData;
+      if (data.source === 'test' || (data.source === 'snooze' && data.taskId && taskIds.has(data.taskId))) {
+        continue;
+      }
+      // Goal reminders scheduled before other kinds existed carry no source; snoozes live until their task goes away.
+      const isGoal = data.source === undefined || data.source === 'goal';
+      if (data.source === 'snooze' || (isGoal && !texts.has(request.content.body ?? ''))) {
+        stale.push(request.identifier);
+        continue;
       }
+
+      const key = planKey(data, plannedAt.get(request.identifier) ?? triggerDate(request.trigger), request.content);
+      current.set(key, [...(current.get(key) ?? []), request.identifier]);
     }
 
-    const slots = Math.max(1, Math.min(8, settings.timesPerDay));
-    const startHour = normalizeHour(settings.startHour);
-    const endHour = normalizeHour(settings.endHour);
+    const missing = requests.filter(({ content, date }) => {
+      const key = planKey(content.data as NotificationData, date.toISOString(), content);
+      const ids = current.get(key);
+      return !ids?.shift();
+    });
+    stale.push(...[...current.values()].flat());
 
-    if (endHour <= startHour) {
+    await cancelNotifications(stale);
+    if (missing.length === 0 || !(await ensurePermissions())) {
       return;
     }
 
-    const totalMinutes = (endHour - startHour) * 60;
-    const stepMinutes = Math.max(1, Math.floor(totalMinutes / slots));
-    const usedTimes = new Set<string>();
+    await scheduleAt(missing, null, clock);
+  });
+}
 
-    for (let i = 0; i < slots; i += 1) {
-      const offset = i * stepMinutes;
-      const hour = Math.min(23, startHour + Math.floor(offset / 60));
-      const minute = Math.min(59, offset % 60);
-      const triggerKey = `${hour}:${minute}`;
+function snoozeTask(notification: Notifications.Notification, taskId: string) {
+  const { title, body } = notification.request.content;
+  return enqueue(() =>
+    scheduleAt(
+      [
+        {
+          content: {
+            title,
+            body,
+            data: { source: 'snooze', taskId },
+            categoryIdentifier: TASK_CATEGORY,
+          },
+          date: new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000),
+        },
+      ],
+      isStoreReady ? appStore.getState().reminderPause : null,
+    ),
+  );
+}
 
-      if (usedTimes.has(triggerKey)) {
-        continue;
-      }
-      usedTimes.add(triggerKey);
+export async function sendTestNotification(t: Translate): Promise<boolean> {
+  if (Platform.OS === 'web' || !(await ensurePermissions())) {
+    return false;
+  }
 
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'Character+ напоминание',
-          body: randomReminder(goals),
-        },
-        trigger: {
-          type: Notifications.SchedulableTriggerInputTypes.DAILY,
-          hour,
-          minute,
+  await enqueue(() =>
+    scheduleAt(
+      [
+        {
+          content: {
+            title: t('notifications.test.title'),
+            body: t('notifications.test.body'),
+            data: { source: 'test' },
+          },
+          date: new Date(Date.now() + TEST_DELAY_SECONDS * 1000),
         },
-      });
+      ],
+      null,
+    ),
+  );
+  return true;
+}
+
+const handledResponses = new Set<string>();
+// Responses that arrive before the stored state is loaded wait on disk and are replayed once it is.
+let isStoreReady = false;
+let openCheckin: (() => void) | null = null;
+let isCheckinOpenRequested = false;
+let pendingQueue: Promise<void> = Promise.resolve();
+
+function updatePendingTaskActions(update: (actions: PendingTaskAction[]) => PendingTaskAction[]): Promise<void> {
+  const job = async () => {
+    const current = await loadPendingTaskActions();
+    const next = update(current);
+    if (next !== current) {
+      await savePendingTaskActions(next);
+    }
+  };
+  pendingQueue = pendingQueue.then(job, job);
+  return pendingQueue;
+}
+
+function applyTaskAction({ action, taskId, firedAt }: PendingTaskAction) {
+  const date = dateKeyOf(firedAt, currentClock());
+  appStore.dispatch(action === 'done' ? { type: 'completeTask', taskId, date } : { type: 'skipTask', taskId, date });
+}
+
+function recordTaskAction(action: PendingTaskAction): Promise<void> {
+  return updatePendingTaskActions((pending) => {
+    if (!isStoreReady) {
+      return [...pending, action];
+    }
+
+    applyTaskAction(action);
+    return pending;
+  });
+}
+
+function replayPendingTaskActions(): Promise<void> {
+  return updatePendingTaskActions((pending) => {
+    pending.forEach(applyTaskAction);
+    return [];
+  });
+}
+
+function requestCheckinOpen() {
+  if (openCheckin) {
+    openCheckin();
+  } else {
+    isCheckinOpenRequested = true;
+  }
+}
+
+async function handleResponse(response: Notifications.NotificationResponse) {
+  const { notification, actionIdentifier } = response;
+  const responseKey = `${notification.request.identifier}:${notification.date}:${actionIdentifier}`;
+  if (handledResponses.has(responseKey)) {
+    return;
+  }
+  handledResponses.add(responseKey);
+  await applyResponse(response);
+  // The system keeps the last response across reloads; clearing it stops a snooze or check-in tap from replaying.
+  Notifications.clearLastNotificationResponse();
+}
+
+async function applyResponse({ notification, actionIdentifier }: Notifications.NotificationResponse) {
+  await updateLog((log) =>
+    markNotificationResponded(log, logEntryOf(notification), actionIdentifier, new Date().toISOString()),
+  );
+
+  const data = notificationData(notification);
+  if (data.source === 'checkin') {
+    if (actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      requestCheckinOpen();
+    }
+    return;
+  }
+
+  if (!isTaskSource(data.source) || !data.taskId) {
+    return;
+  }
+
+  const firedAt = new Date(notification.date).toISOString();
+  if (actionIdentifier === ACTION_DONE) {
+    await recordTaskAction({ action: 'done', taskId: data.taskId, firedAt });
+  } else if (actionIdentifier === ACTION_SKIP) {
+    await recordTaskAction({ action: 'skip', taskId: data.taskId, firedAt });
+  } else if (actionIdentifier === ACTION_SNOOZE) {
+    await snoozeTask(notification, data.taskId);
+  } else {
+    return;
+  }
+
+  await Notifications.dismissNotificationAsync(notification.request.identifier);
+}
+
+// Listeners live at module scope so responses are caught before React mounts; on Android the background task also
+// runs action presses while the app is not running.
+if (Platform.OS !== 'web') {
+  Notifications.addNotificationResponseReceivedListener((response) => {
+    void handleResponse(response);
+  });
+  Notifications.addNotificationReceivedListener((notification) => {
+    const firedAt = new Date(notification.date).toISOString();
+    const suppressed = isSuppressed(notification);
+    void updateLog((log) =>
+      suppressed
+        ? markNotificationSuppressed(log, logEntryOf(notification), firedAt)
+        : markNotificationDelivered(log, logEntryOf(notification), firedAt),
+    );
+  });
+  TaskManager.defineTask<Notifications.NotificationTaskPayload>(RESPONSE_TASK, async ({ data }) => {
+    if (data && 'actionIdentifier' in data) {
+      await handleResponse(data);
+    }
+  });
+  void Notifications.registerTaskAsync(RESPONSE_TASK);
+}
+
+export function useNotificationResponses(enabled: boolean, onOpenCheckin: () => void) {
+  const onOpenCheckinRef = useRef(onOpenCheckin);
+
+  useEffect(() => {
+    onOpenCheckinRef.current = onOpenCheckin;
+  }, [onOpenCheckin]);
+
+  useEffect(() => {
+    if (!enabled || Platform.OS === 'web') {
+      return;
+    }
+
+    isStoreReady = true;
+    openCheckin = () => onOpenCheckinRef.current();
+    if (isCheckinOpenRequested) {
+      isCheckinOpenRequested = false;
+      openCheckin();
+    }
+    void replayPendingTaskActions();
+    const response = Notifications.getLastNotificationResponse();
+    if (response) {
+      void handleResponse(response);
     }
-  }, []);
 
-  return { setupNotifications };
+    return () => {
+      isStoreReady = false;
+      openCheckin = null;
+    };
+  }, [enabled]);
 }
@@ -0,0 +1,8 @@
+import { createContext, useContext } from 'react';
+import { createI18n, DEFAULT_LOCALE, I18n } from '.';
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,447 @@
+import { Catalog } from '.';
+
+export const en: Catalog = {
+  'blocks.traits': 'Character traits',
+  'blocks.emotions': 'Emotions',
+  'blocks.habits': 'Habits',
+  'blocks.values': 'Values and beliefs',
+  'undo.goalRemoved': 'Goal removed',
+  'undo.goalCategoryDeleted': 'Goal category deleted',
+  'undo.templatePackRemoved': 'Template pack removed',
+  'undo.blocksReordered': 'Blocks reordered',
+  'undo.blockDeleted': 'Block deleted',
+  'undo.taskArchived': 'Task archived',
+  'undo.taskDeleted': 'Task deleted',
+  'undo.checkinDeleted': 'Check-in deleted',
+  'undo.trashItemDeleted': 'Deleted from trash',
+  'undo.trashEmptied': 'Trash emptied',
+  'undo.dataImported': 'Data imported',
+  'backup.section.goals': 'Goals',
+  'backup.section.goalCategories': 'Custom goal categories',
+  'backup.section.templatePacks': 'Template packs',
+  'backup.section.checkins': 'Check-ins',
+  'backup.section.blocks': 'Blocks',
+  'backup.section.tasks': 'Tasks',
+  'backup.section.completions': 'Completions',
+  'backup.section.skips': 'Skipped tasks',
+  'backup.section.notes': 'Notes',
+  'backup.section.trash': 'Trash',
+  'notifications.goalFallback': 'Take one small useful step right now.',
+  'csv.date': 'Date',
+  'csv.score': 'Score',
+  'csv.goalScores': 'Goal scores',
+  'csv.note': 'Note',
+  'csv.doneCount': 'Tasks done',
+  'csv.tasks': 'Tasks',
+  'common.deletedTask': 'Deleted task',
+  'common.deletedGoal': 'Deleted goal',
+  'notifications.action.opened': 'Opened',
+  'notifications.action.done': 'Done',
+  'notifications.action.snoozed': 'Snoozed for {minutes} min',
+  'notifications.action.skipped': 'Skipped',
+  'notifications.button.done': 'Done',
+  'notifications.button.snooze': 'Snooze {minutes} min',
+  'notifications.button.skip': 'Skip today',
+  'notifications.test.title': 'Character+ test',
+  'notifications.test.body': 'Notifications work. You can dismiss this message.',
+  'notifications.goal.title': 'Character+ reminder',
+  'notifications.checkin.title': 'Evening check-in',
+  'notifications.checkin.body': 'How was your day? Rate it and add a short note.',
+  'common.edit': 'Edit',
+  'goals.card.selected': 'Selected',
+  'goals.card.add': 'Add',
+  'goals.card.action': 'Goal: {action}',
+  'heatmap.less': 'Less',
+  'heatmap.more': 'More',
+  'heatmap.score': 'Score: {score}/5',
+  'heatmap.noCheckin': 'Score: no check-in',
+  'heatmap.enteredLate': 'Entered later',
+  'heatmap.note': 'Note: {note}',
+  'heatmap.tasks': 'Tasks: {tasks}',
+  'heatmap.noTasks': 'nothing marked',
+  'heatmap.editCheckin': 'Edit check-in',
+  'heatmap.addCheckin': 'Add check-in',
+  'heatmap.outsideBackfill': 'This day is outside the backfill window.',
+  'profile.title': 'Profile',
+  'profile.subtitle': 'App menu and account status',
+  'profile.menu.settings': 'Settings (main screen)',
+  'profile.menu.home': 'Home',
+  'profile.menu.history': 'History',
+  'profile.data.export': 'Export to JSON',
+  'profile.data.import': 'Import from file',
+  'profile.notifications.diagnostics': 'Notification diagnostics',
+  'profile.account.title': 'Account',
+  'profile.account.name': 'Name: {name}',
+  'profile.account.noName': 'not set',
+  'profile.account.status': 'Status: {status}',
+  'profile.menu.title': 'Menu',
+  'profile.data.title': 'Data',
+  'profile.data.subtitle': 'Backup of all goals, check-ins, blocks and tasks',
+  'profile.data.trash': 'Trash',
+  'profile.data.trashCount': 'Trash ({count})',
+  'profile.notifications.title': 'Notifications',
+  'profile.notifications.subtitle': "If a reminder didn't arrive, check what is scheduled",
+  'profile.language.title': 'Language',
+  'profile.language.subtitle': 'Language of the interface, dates and notifications',
+  'profile.language.device': 'Device language',
+  'profile.language.deviceHint': 'Device language now: {language}.',
+  'premium.subtitle': 'Paywall skeleton for future monetization',
+  'premium.features.title': "What's included",
+  'premium.features.history': '• 14 and 30 day history',
+  'premium.features.analytics': '• Advanced analytics',
+  'premium.features.future': '• Coming later: export and personal plans',
+  'premium.plans.title': 'Plans',
+  'premium.plans.monthlyPrice': '199 ₽ / month',
+  'premium.plans.monthlyHint': 'Auto-renewal, cancel any time',
+  'premium.plans.yearlyPrice': '1490 ₽ / year',
+  'premium.plans.yearlyHint': 'Cheaper than paying monthly',
+  'premium.subscribe': 'Subscribe (soon)',
+  'premium.continueFree': 'Continue without Premium for now',
+  'premium.demo.title': 'Demo mode',
+  'premium.demo.hint': 'A temporary button for testing premium content until payments are integrated.',
+  'premium.demo.disable': 'Turn off Premium (demo)',
+  'premium.demo.enable': 'Turn on Premium (demo)',
+  'home.title': 'Home',
+  'home.welcome': 'Welcome back, {name}',
+  'home.defaultName': 'friend',
+  'home.today.title': 'Today',
+  'home.today.subtitle': 'A short summary before the day starts',
+  'home.today.activeGoals': 'Active goals: {count}',
+  'home.today.checkin': "Today's check-in: {score}/5",
+  'home.today.noCheckin': "Today's check-in: none yet",
+  'home.today.tasks': 'Tasks today: {done}/{total}',
+  'home.today.noTasks': 'Tasks today: nothing scheduled',
+  'home.today.weekly': 'Week: {percent}% consistency.',
+  'home.checkin.title': 'Daily check-in',
+  'home.checkin.subtitle': 'Rate your day and add a note in one place',
+  'home.checkin.byGoals': 'By goal',
+  'home.checkin.notePlaceholder': 'A short note about the day',
+  'home.checkin.update': 'Update check-in',
+  'home.checkin.save': 'Save check-in',
+  'history.title': 'History',
+  'history.subtitle': 'Stats for 7, 14 or 30 days',
+  'history.range.title': 'Period',
+  'history.range.days': '{count}d',
+  'history.range.premiumHint': '14 and 30 days are available in Premium.',
+  'history.metrics.title': 'Metrics',
+  'history.metrics.records': 'Entries: {count}',
+  'history.metrics.average': 'Average score: {average}',
+  'history.metrics.strongDays': 'Days scored 4-5: {count}',
+  'history.metrics.completion': 'Discipline: {percent}%',
+  'history.metrics.vacationDays': 'Vacation days not counted: {count}.',
+  'history.metrics.goalAverages': 'Average score by goal',
+  'history.calendar.title': 'Calendar',
+  'history.calendar.backfillDays': 'Backfill window, days',
+  'history.streaks.title': 'Streaks',
+  'history.streaks.checkins': 'Check-ins',
+  'history.streaks.goal': 'Goal: {title}',
+  'history.streaks.hint': "Days when a task isn't scheduled don't break its streak.",
+  'history.records.title': 'Recent entries',
+  'history.records.empty': 'No check-ins in the selected period yet.',
+  'history.records.enteredLate': 'entered later',
+  'history.records.noNote': 'No note',
+  'history.csv.title': 'CSV export',
+  'history.csv.download': 'Download CSV',
+  'history.calendar.subtitle': "A day's colour depends on its check-in score",
+  'history.streaks.subtitle': 'Current and best streak in a row',
+  'history.csv.subtitle': 'Check-ins and completed tasks for spreadsheets',
+  'diagnostics.source.goal': 'Goals',
+  'diagnostics.source.task': 'Task',
+  'diagnostics.source.snooze': 'Task (snoozed)',
+  'diagnostics.source.checkin': 'Check-in',
+  'diagnostics.source.test': 'Test',
+  'diagnostics.source.none': 'No source',
+  'diagnostics.source.withTask': '{label}: {task}',
+  'diagnostics.deletedTask': 'deleted task',
+  'diagnostics.noResponse': 'No response',
+  'diagnostics.title': 'Notification diagnostics',
+  'diagnostics.subtitle': 'What is scheduled and what has already been delivered',
+  'diagnostics.check.title': 'Check',
+  'diagnostics.check.sendTest': 'Send a test notification',
+  'diagnostics.check.refresh': 'Refresh',
+  'diagnostics.check.hint': 'The test notification arrives in a few seconds, even during quiet hours.',
+  'diagnostics.scheduled.title': 'Scheduled',
+  'common.loading': 'Loading…',
+  'diagnostics.scheduled.empty': 'Nothing is scheduled. Check that reminders are turned on.',
+  'diagnostics.scheduled.unknownTime': 'time unknown',
+  'diagnostics.scheduled.trigger': 'Trigger: {type} · {id}',
+  'diagnostics.log.title': 'Deliveries and taps',
+  'diagnostics.log.empty': 'The log is empty so far.',
+  'diagnostics.log.hint':
+    'Scheduled notifications count as delivered once their time has come. Taps are recorded even if the app was closed.',
+  'diagnostics.scheduled.titleCount': 'Scheduled ({count})',
+  'diagnostics.scheduled.subtitle': 'Notifications currently waiting for their time in the system',
+  'diagnostics.log.subtitle': 'Last {count} delivered notifications',
+  'common.days': { one: '{count} day', other: '{count} days' },
+  'timing.shift.more': 'more often',
+  'timing.shift.less': 'less often',
+  'timing.shift.same': 'as usual',
+  'timing.status.off': 'Adaptation is off: reminders are spread evenly across the window.',
+  'timing.status.collecting':
+    'Collecting statistics: {delivered} of {required} delivered reminders over {period}. Times are chosen evenly for now.',
+  'timing.status.active':
+    'Over {period}: {delivered} delivered, {responded} opened. Reminders shift towards the hours when you respond more often.',
+  'timing.title': 'Reminder timing',
+  'timing.subtitle': 'Why reminders arrive at these hours',
+  'timing.adaptive.title': 'Adaptive timing',
+  'timing.adaptive.toggle': 'Adapt to my responses',
+  'timing.hours.title': 'By hour',
+  'timing.hours.loading': 'Loading statistics…',
+  'timing.hours.hint':
+    'Tapping a notification or one of its buttons counts as opening it. Hours without data keep their share so that the time can come back.',
+  'timing.hours.subtitle': 'Opened / delivered and the share of reminders in this hour',
+  'tasks.reminders.off': 'Reminders are off',
+  'tasks.reminders.noTime': 'no time selected',
+  'tasks.reminders.fixed': 'Fixed: {days}, at {times}',
+  'tasks.reminders.random': 'Random: {days}, {start}-{end}, {times}',
+  'common.times': { one: 'once', other: '{count} times' },
+  'packs.summary': 'Goals: {goals}, blocks: {blocks}, suggestions: {suggestions}, phrases: {reminders}',
+  'alerts.categoryTitle.title': 'Title required',
+  'alerts.categoryTitle.message': 'Enter a category title, for example “Patience”.',
+  'alerts.checkinScore.title': 'Choose a score',
+  'alerts.checkinScore.message': 'Rate your day from 1 to 5.',
+  'alerts.checkinSaved.title': 'Saved',
+  'alerts.checkinSaved.message': "Today's check-in has been saved.",
+  'alerts.dayUnavailable.title': 'Day unavailable',
+  'alerts.dayUnavailable.message': 'This day is outside the check-in backfill window.',
+  'alerts.deleteCheckin.title': 'Delete check-in?',
+  'alerts.deleteCheckin.message': 'The entry for {date} will be deleted.',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'alerts.titleRequired': 'Title required',
+  'alerts.blockTitle.message': 'Enter a block title.',
+  'alerts.deleteBlock.title': 'Delete block?',
+  'alerts.deleteBlock.message':
+    '“{title}” and its {tasks} will be moved to the trash. You can restore them within {days}.',
+  'common.tasks': { one: '{count} task', other: '{count} tasks' },
+  'alerts.packInstalled.title': 'Pack already installed',
+  'alerts.packInstalled.message': '“{title}” is already installed at version {version}.',
+  'alerts.packUpdated': 'Pack updated',
+  'alerts.packAdded': 'Pack installed',
+  'alerts.packVersion': '“{title}”, version {version}.',
+  'alerts.fileOpen.title': 'Could not open the file',
+  'alerts.fileOpen.message': 'Try choosing the file again.',
+  'alerts.wrongFile.title': 'Unsupported file',
+  'alerts.wrongFile.pack': 'Choose a Character+ template pack in JSON format.',
+  'alerts.newBlockTitle.message': 'Enter a title for the new block.',
+  'goals.defaultAction': 'A new step in self-development',
+  'alerts.invalidTime.title': 'Invalid time',
+  'alerts.invalidTime.message': 'Enter the time as HH:MM, for example 09:30.',
+  'alerts.wizardStep.title': 'Complete this step',
+  'alerts.wizardStep.message': 'Fill in this step to continue.',
+  'alerts.taskTitle.message': 'Enter a task title.',
+  'alerts.taskDescription.title': 'Description required',
+  'alerts.taskDescription.message': 'Describe what exactly needs to be done.',
+  'alerts.taskMotivation.title': 'Motivation required',
+  'alerts.taskMotivation.message': 'Add your motivation for this task.',
+  'alerts.taskReminders.title': 'Check reminders',
+  'alerts.taskReminders.message': 'Choose weekdays and a valid time for reminders.',
+  'tasks.copyTitle': '{title} (copy)',
+  'alerts.restore.title': 'Could not restore',
+  'alerts.restore.task': "This task's block was deleted. Restore the block first.",
+  'alerts.restore.block': 'A block with this title already exists. Delete it to restore this one.',
+  'alerts.deleteForever.title': 'Delete forever?',
+  'alerts.deleteForever.message': '“{title}” cannot be restored afterwards.',
+  'alerts.emptyTrash.title': 'Empty the trash?',
+  'alerts.emptyTrash.message': 'All deleted blocks and tasks will be erased permanently.',
+  'alerts.emptyTrash.confirm': 'Empty',
+  'alerts.notificationsDenied.title': 'Notifications unavailable',
+  'alerts.notificationsDenied.message': 'Allow notifications for Character+ in the device settings.',
+  'alerts.sendFailed': 'Could not send',
+  'alerts.tryLater': 'Please try again a bit later.',
+  'alerts.exportFailed': 'Could not export',
+  'backup.exportDialog': 'Export Character+ data',
+  'backup.csvDialog': 'Export progress to CSV',
+  'alerts.wrongFile.backup': 'Choose a Character+ backup in JSON format.',
+  'alerts.imported.title': 'Done',
+  'alerts.imported.merge': 'Data merged.',
+  'alerts.imported.replace': 'Data replaced.',
+  'alerts.nameRequired.title': 'Name required',
+  'alerts.nameRequired.message': 'Add your name to finish the welcome.',
+  'alerts.goalRequired.title': 'Choose a goal',
+  'alerts.goalRequired.message': 'Choose at least one goal to continue.',
+  'settings.goals.title': 'Choose goals',
+  'settings.goals.subtitle': 'Mark the areas you want to develop in',
+  'settings.goals.actionPlaceholder': 'For example: speak more calmly in difficult situations',
+  'settings.goals.addCategory': '+ Custom category',
+  'settings.packs.title': 'Template packs',
+  'settings.packs.subtitle': 'Ready-made goals, blocks, task suggestions and reminder phrases',
+  'settings.packs.version': '{title} · version {version}',
+  'settings.packs.remove': 'Remove pack',
+  'settings.packs.install': 'Install “{title}”',
+  'settings.packs.import': 'Import pack from file',
+  'settings.packs.hint':
+    "Disabling a pack keeps its goals until you deselect them. Removing it also removes the pack's goals.",
+  'settings.reminders.title': 'Reminders',
+  'settings.reminders.subtitle': 'Set up push notifications the way you like',
+  'common.enableReminders': 'Enable reminders',
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.time': 'Time',
+  'settings.reminders.perDay': 'Times per day',
+  'common.minGap': 'Min. interval',
+  'common.minutes': '{minutes} min',
+  'settings.reminders.windowStart': 'Window start',
+  'settings.reminders.windowEnd': 'Window end',
+  'settings.reminders.hint':
+    'Active goals: {goals}. Reminders arrive at random times between {start} and {end}, different every day.',
+  'settings.reminders.adaptiveOn': 'Adaptive timing: why these hours?',
+  'settings.reminders.adaptiveOff': 'Adaptive timing is off',
+  'settings.checkin.title': 'Evening check-in',
+  'settings.checkin.subtitle': "A reminder to rate your day if today's check-in is still empty",
+  'settings.checkin.remind': 'Remind me to check in',
+  'settings.checkin.hint': 'If the check-in for the day is already saved, no reminder is sent.',
+  'settings.pause.title': 'Notification pause',
+  'settings.pause.subtitle': 'Quiet hours, days without reminders and vacation',
+  'settings.pause.quietHours': 'Quiet hours',
+  'settings.pause.mutedDays': 'Days without reminders',
+  'settings.pause.vacationFrom': 'Vacation from',
+  'settings.pause.vacationTo': 'Vacation until',
+  'settings.pause.endVacation': 'End vacation',
+  'settings.pause.startVacation': 'Start vacation',
+  'settings.pause.vacationHint':
+    'No reminders arrive during vacation, and these days neither break streaks nor count towards history percentages.',
+  'settings.time.title': 'Time and time zone',
+  'settings.time.subtitle': 'How days are counted and when reminders arrive',
+  'settings.time.homeZone': 'Home time zone',
+  'settings.time.deviceZone': "Days and reminders follow the device's time zone ({device}).",
+  'settings.time.homeZoneHint': 'Days and reminders use the {home} time zone, even when you travel.',
+  'settings.time.travelHint':
+    'The device is currently in {device}, but days and reminders use your home time zone {home}.',
+  'settings.time.dayStart': 'New day starts at',
+  'settings.time.lateHint': 'Check-ins and tasks before {hour} count towards the previous day.',
+  'settings.time.midnightHint': 'The day ends at midnight.',
+  'tasks.empty': 'No tasks yet. Tap the button above to add the first one.',
+  'tasks.motivation': 'Motivation',
+  'tasks.skippedToday': 'Skipped today',
+  'tasks.doneToday': 'Done today',
+  'tasks.markDone': 'Mark as done',
+  'tasks.archivedSince': 'Archived since {date}',
+  'tasks.unarchive': 'Restore from archive',
+  'tasks.reorderHint': 'Drag tasks and tap ✓ to apply',
+  'tasks.add': '+ Add task',
+  'tasks.reorder': 'Reorder',
+  'tasks.hideArchive': 'Hide archive',
+  'tasks.showArchive': 'Task archive ({count})',
+  'blocks.reorderHint': 'Drag blocks and tap ✓ to apply',
+  'blocks.dragging': 'Dragging',
+  'app.loading': 'Loading Character+...',
+  'onboarding.title': 'Welcome to Character+',
+  'onboarding.subtitle': 'Complete a short three-step setup.',
+  'onboarding.step': 'Step {step} of {total}',
+  'onboarding.nameLabel': 'What should we call you?',
+  'onboarding.namePlaceholder': 'Enter your name',
+  'onboarding.almostDone': 'Almost done, {name}.',
+  'onboarding.goals': 'Goals selected: {count}',
+  'onboarding.remindersOn': 'Reminders: on, {times} a day',
+  'onboarding.remindersOff': 'Reminders: off, {times} a day',
+  'onboarding.window': 'Window: {start}-{end}',
+  'common.back': 'Back',
+  'common.next': 'Next',
+  'common.finish': 'Finish',
+  'topBar.goals': 'Goals: {count}',
+  'topBar.checkin': 'Check-in: {score}',
+  'topBar.weekly': '7d: {percent}%',
+  'topBar.streak': 'Streak: {count}',
+  'undo.undone': 'Undone: {action}',
+  'undo.redo': 'Redo',
+  'undo.undo': 'Undo',
+  'tasks.wizard.title': 'Task title',
+  'tasks.wizard.description': 'Task description',
+  'tasks.titlePlaceholder': 'Enter a task title',
+  'tasks.descriptionPlaceholder': 'Describe what exactly you want to do for this task and how',
+  'tasks.motivationPlaceholder': 'State your motivation: for what or whom you are changing',
+  'tasks.image.upload': 'Upload',
+  'tasks.image.hint': 'You can upload a photo here that will motivate you.',
+  'tasks.mode.fixed': 'Fixed time',
+  'tasks.mode.random': 'Random within a window',
+  'tasks.weekdays': 'Weekdays',
+  'tasks.fixedTimes': 'Exact time (you can add several)',
+  'tasks.timePlaceholder': 'For example 09:30',
+  'common.add': 'Add',
+  'tasks.window': 'Time window',
+  'tasks.timesInWindow': 'Times in window',
+  'tasks.create': 'Create task',
+  'tasks.editTitle': 'Edit task',
+  'tasks.field.title': 'Title',
+  'tasks.field.description': 'Description',
+  'tasks.duplicate': 'Duplicate',
+  'tasks.moveToBlock': 'To another block…',
+  'tasks.archive': 'Archive',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'tasks.image.title': 'Motivation image',
+  'tasks.image.placeholder': 'Paste a link or a local path to the photo',
+  'tasks.image.saveHint': 'Once saved, the photo will be shown in the task.',
+  'blocks.fallbackTitle': 'Block',
+  'blocks.rename': 'Rename',
+  'blocks.delete': 'Delete block',
+  'blocks.renameTitle': 'Block title',
+  'blocks.titlePlaceholder': 'Enter a title',
+  'goals.category.editTitle': 'Goal category',
+  'goals.category.newTitle': 'New goal category',
+  'goals.category.titlePlaceholder': 'Title, for example “Patience”',
+  'goals.category.descriptionPlaceholder': 'What you want to develop',
+  'goals.category.color': 'Colour',
+  'goals.category.reminders': 'Reminder phrases',
+  'goals.category.remindersPlaceholder': 'One phrase per line',
+  'goals.category.remindersHint': 'Phrases alternate with your goals in push reminders.',
+  'goals.category.delete': 'Delete category',
+  'blocks.addTitle': 'Add block',
+  'blocks.addNew': 'Add a new block',
+  'blocks.addTemplate': 'Add template: {title}',
+  'blocks.addFromPack': 'Add from pack: {title}',
+  'checkin.editTitle': 'Check-in for {date}',
+  'checkin.lateHint': 'The entry will be marked as added later.',
+  'checkin.delete': 'Delete check-in',
+  'tasks.moveTitle': 'Move to block',
+  'trash.hint': 'Deleted blocks and tasks are kept for {days}, then erased automatically.',
+  'trash.empty': 'The trash is empty.',
+  'trash.task': 'Task · {block}',
+  'trash.blockDeleted': 'block deleted',
+  'trash.block': 'Block · {tasks}',
+  'trash.deletedAt': 'Deleted {date}, {days} left',
+  'trash.restore': 'Restore',
+  'trash.deleteForever': 'Delete forever',
+  'import.title': 'Import data',
+  'import.merge': 'Merge',
+  'import.replace': 'Replace',
+  'import.mergeHint':
+    'New records are added and matching ones are updated from the file. Your profile and reminder settings stay the same.',
+  'import.replaceHint': 'All current data will be replaced with the contents of the file.',
+  'import.updated': '{count} updated',
+  'import.removed': '{count} removed',
+  'import.unchanged': 'no changes',
+  'import.confirm': 'Import',
+  'blocks.newTitle': 'New block',
+  'profile.theme.title': 'Appearance',
+  'profile.theme.subtitle': 'Light or dark interface theme',
+  'profile.theme.system': 'System',
+  'profile.theme.light': 'Light',
+  'profile.theme.dark': 'Dark',
+  'common.records': { one: '{count} record', other: '{count} records' },
+  'alerts.dataRepaired.title': 'Some data was damaged',
+  'alerts.dataRepaired.message':
+    'Skipped {records} that could not be read. Everything else is in place, and a copy of the original data was saved so you can export it.',
+  'alerts.dataReset.title': 'Saved data could not be read',
+  'alerts.dataReset.message':
+    'The app started from scratch. A copy of the original data was saved so you can export it.',
+  'alerts.quarantine.export': 'Export copy',
+  'diagnostics.suppressed': 'Not shown: already done or paused',
+  'suggestions.traits.calmReaction': 'Calm reaction',
+  'suggestions.traits.smallDiscipline': 'Discipline in small things',
+  'suggestions.traits.confidentTone': 'Confident tone',
+  'suggestions.traits.focus': 'Focus without distractions',
+  'suggestions.habits.morningExercise': 'Morning exercise',
+  'suggestions.habits.reading': 'Reading for 20 minutes',
+  'suggestions.habits.dayPlan': 'Plan for the day',
+  'suggestions.habits.earlyBed': 'Going to bed early',
+  'suggestions.emotions.pause': 'Pause before answering',
+  'suggestions.emotions.irritation': 'Managing irritation',
+  'suggestions.emotions.relaxation': 'Relaxation techniques',
+  'suggestions.emotions.anxiety': 'Managing anxiety',
+  'suggestions.values.honesty': 'Being honest',
+  'suggestions.values.respect': 'Respect for loved ones',
+  'suggestions.values.consistency': 'Consistency',
+  'suggestions.values.responsibility': 'Responsibility and honesty',
+};
@@ -0,0 +1,76 @@
+import { Locale } from '../types';
+import { en } from './en';
+import { ru } from './ru';
+
+export type PluralCategory = 'one' | 'few' | 'many' | 'other';
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof ru;
+export type Catalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+}
+
+export const DEFAULT_LOCALE: Locale = 'ru';
+export const LOCALES: Locale[] = ['ru', 'en'];
+export const LOCALE_TAGS: Record<Locale, string> = { ru: 'ru-RU', en: 'en-US' };
+export const LANGUAGE_NAMES: Record<Locale, string> = { ru: 'Русский', en: 'English' };
+
+const CATALOGS: Record<Locale, Catalog> = { ru, en };
+
+// Hermes ships without Intl.PluralRules, so the CLDR cardinal rules of both languages are spelled out here.
+const PLURAL_RULES: Record<Locale, (count: number) => PluralCategory> = {
+  ru: (count) => {
+    if (!Number.isInteger(count)) {
+      return 'other';
+    }
+
+    const mod10 = Math.abs(count) % 10;
+    const mod100 = Math.abs(count) % 100;
+    if (mod10 === 1 && mod100 !== 11) {
+      return 'one';
+    }
+    if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) {
+      return 'few';
+    }
+    return 'many';
+  },
+  en: (count) => (count === 1 ? 'one' : 'other'),
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function deviceLocale(): Locale {
+  const language = Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0]?.toLowerCase();
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+export function resolveLocale(language: Locale | null, device = deviceLocale()): Locale {
+  return language ?? device;
+}
+
+function pickForm(locale: Locale, message: Message, count: unknown): string {
+  if (typeof message === 'string') {
+    return message;
+  }
+
+  return typeof count === 'number' ? (message[PLURAL_RULES[locale](count)] ?? message.other) : message.other;
+}
+
+export function translator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale];
+  return (key, params = {}) =>
+    pickForm(locale, catalog[key], params.count).replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] === undefined ? match : String(params[name]),
+    );
+}
+
+export function createI18n(locale: Locale): I18n {
+  return { locale, t: translator(locale) };
+}
@@ -0,0 +1,445 @@
+export const ru = {
+  'blocks.traits': 'Черты характера',
+  'blocks.emotions': 'Эмоции',
+  'blocks.habits': 'Привычки',
+  'blocks.values': 'Ценности и убеждения',
+  'undo.goalRemoved': 'Цель убрана',
+  'undo.goalCategoryDeleted': 'Категория цели удалена',
+  'undo.templatePackRemoved': 'Набор шаблонов удалён',
+  'undo.blocksReordered': 'Порядок блоков изменён',
+  'undo.blockDeleted': 'Блок удалён',
+  'undo.taskArchived': 'Задача перенесена в архив',
+  'undo.taskDeleted': 'Задача удалена',
+  'undo.checkinDeleted': 'Чек-ин удалён',
+  'undo.trashItemDeleted': 'Удалено из корзины',
+  'undo.trashEmptied': 'Корзина очищена',
+  'undo.dataImported': 'Данные импортированы',
+  'backup.section.goals': 'Цели',
+  'backup.section.goalCategories': 'Свои категории целей',
+  'backup.section.templatePacks': 'Наборы шаблонов',
+  'backup.section.checkins': 'Чек-ины',
+  'backup.section.blocks': 'Блоки',
+  'backup.section.tasks': 'Задачи',
+  'backup.section.completions': 'Отметки выполнения',
+  'backup.section.skips': 'Пропуски задач',
+  'backup.section.notes': 'Заметки',
+  'backup.section.trash': 'Корзина',
+  'notifications.goalFallback': 'Сделай небольшой полезный шаг прямо сейчас.',
+  'csv.date': 'Дата',
+  'csv.score': 'Оценка',
+  'csv.goalScores': 'Оценки по целям',
+  'csv.note': 'Заметка',
+  'csv.doneCount': 'Выполнено задач',
+  'csv.tasks': 'Задачи',
+  'common.deletedTask': 'Удалённая задача',
+  'common.deletedGoal': 'Удалённая цель',
+  'notifications.action.opened': 'Открыто',
+  'notifications.action.done': 'Сделано',
+  'notifications.action.snoozed': 'Отложено на {minutes} мин',
+  'notifications.action.skipped': 'Пропущено',
+  'notifications.button.done': 'Сделано',
+  'notifications.button.snooze': 'Отложить {minutes} мин',
+  'notifications.button.skip': 'Пропустить сегодня',
+  'notifications.test.title': 'Character+ тест',
+  'notifications.test.body': 'Уведомления работают. Это сообщение можно закрыть.',
+  'notifications.goal.title': 'Character+ напоминание',
+  'notifications.checkin.title': 'Вечерний чек-ин',
+  'notifications.checkin.body': 'Как прошёл день? Оцените его и добавьте короткую заметку.',
+  'common.edit': 'Изменить',
+  'goals.card.selected': 'Выбрано',
+  'goals.card.add': 'Добавить',
+  'goals.card.action': 'Цель: {action}',
+  'heatmap.less': 'Меньше',
+  'heatmap.more': 'Больше',
+  'heatmap.score': 'Оценка: {score}/5',
+  'heatmap.noCheckin': 'Оценка: нет чек-ина',
+  'heatmap.enteredLate': 'Внесено позже',
+  'heatmap.note': 'Заметка: {note}',
+  'heatmap.tasks': 'Задачи: {tasks}',
+  'heatmap.noTasks': 'ничего не отмечено',
+  'heatmap.editCheckin': 'Изменить чек-ин',
+  'heatmap.addCheckin': 'Добавить чек-ин',
+  'heatmap.outsideBackfill': 'Этот день вне окна дозаполнения.',
+  'profile.title': 'Профиль',
+  'profile.subtitle': 'Меню приложения и статус аккаунта',
+  'profile.menu.settings': 'Настройки (основной экран)',
+  'profile.menu.home': 'Главная',
+  'profile.menu.history': 'История',
+  'profile.data.export': 'Экспорт в JSON',
+  'profile.data.import': 'Импорт из файла',
+  'profile.notifications.diagnostics': 'Диагностика уведомлений',
+  'profile.account.title': 'Аккаунт',
+  'profile.account.name': 'Имя: {name}',
+  'profile.account.noName': 'не указано',
+  'profile.account.status': 'Статус: {status}',
+  'profile.menu.title': 'Пункты меню',
+  'profile.data.title': 'Данные',
+  'profile.data.subtitle': 'Резервная копия всех целей, чек-инов, блоков и задач',
+  'profile.data.trash': 'Корзина',
+  'profile.data.trashCount': 'Корзина ({count})',
+  'profile.notifications.title': 'Уведомления',
+  'profile.notifications.subtitle': 'Если напоминание не пришло, проверьте, что запланировано',
+  'profile.language.title': 'Язык',
+  'profile.language.subtitle': 'Язык интерфейса, дат и уведомлений',
+  'profile.language.device': 'Как на устройстве',
+  'profile.language.deviceHint': 'Сейчас на устройстве: {language}.',
+  'premium.subtitle': 'Paywall-скелет для будущей монетизации',
+  'premium.features.title': 'Что входит',
+  'premium.features.history': '• История на 14 и 30 дней',
+  'premium.features.analytics': '• Расширенная аналитика',
+  'premium.features.future': '• В будущем: экспорт и персональные планы',
+  'premium.plans.title': 'Тарифы',
+  'premium.plans.monthlyPrice': '199 ₽ / месяц',
+  'premium.plans.monthlyHint': 'Автопродление, отмена в любой момент',
+  'premium.plans.yearlyPrice': '1490 ₽ / год',
+  'premium.plans.yearlyHint': 'Экономия относительно помесячной оплаты',
+  'premium.subscribe': 'Оформить (скоро)',
+  'premium.continueFree': 'Пока продолжить без Premium',
+  'premium.demo.title': 'Demo режим',
+  'premium.demo.hint': 'Временная кнопка для тестирования премиум-контента до интеграции оплаты.',
+  'premium.demo.disable': 'Выключить Premium (demo)',
+  'premium.demo.enable': 'Включить Premium (demo)',
+  'home.title': 'Главная',
+  'home.welcome': 'С возвращением, {name}',
+  'home.defaultName': 'друг',
+  'home.today.title': 'Сегодня',
+  'home.today.subtitle': 'Краткая сводка перед началом дня',
+  'home.today.activeGoals': 'Активных целей: {count}',
+  'home.today.checkin': 'Чек-ин сегодня: {score}/5',
+  'home.today.noCheckin': 'Чек-ин сегодня: нет записи',
+  'home.today.tasks': 'Задачи сегодня: {done}/{total}',
+  'home.today.noTasks': 'Задачи сегодня: нет на сегодня',
+  'home.today.weekly': 'Неделя: {percent}% последовательности.',
+  'home.checkin.title': 'Ежедневный чек-ин',
+  'home.checkin.subtitle': 'Оцените день и добавьте заметку в одном месте',
+  'home.checkin.byGoals': 'По целям',
+  'home.checkin.notePlaceholder': 'Короткая заметка по дню',
+  'home.checkin.update': 'Обновить чек-ин',
+  'home.checkin.save': 'Сохранить чек-ин',
+  'history.title': 'История',
+  'history.subtitle': 'Статистика за 7, 14 или 30 дней',
+  'history.range.title': 'Период',
+  'history.range.days': '{count}д',
+  'history.range.premiumHint': '14 и 30 дней доступны в Premium.',
+  'history.metrics.title': 'Метрики',
+  'history.metrics.records': 'Записей: {count}',
+  'history.metrics.average': 'Средний балл: {average}',
+  'history.metrics.strongDays': 'Дней с 4-5 баллами: {count}',
+  'history.metrics.completion': 'Дисциплина: {percent}%',
+  'history.metrics.vacationDays': 'Дни отпуска не учитываются: {count}.',
+  'history.metrics.goalAverages': 'Средний балл по целям',
+  'history.calendar.title': 'Календарь',
+  'history.calendar.backfillDays': 'Можно дозаполнить за, дней',
+  'history.streaks.title': 'Серии',
+  'history.streaks.checkins': 'Чек-ины',
+  'history.streaks.goal': 'Цель: {title}',
+  'history.streaks.hint': 'Дни без запланированной задачи не прерывают её серию.',
+  'history.records.title': 'Последние записи',
+  'history.records.empty': 'За выбранный период пока нет чек-инов.',
+  'history.records.enteredLate': 'внесено позже',
+  'history.records.noNote': 'Без заметки',
+  'history.csv.title': 'Экспорт CSV',
+  'history.csv.download': 'Скачать CSV',
+  'history.calendar.subtitle': 'Цвет дня зависит от оценки чек-ина',
+  'history.streaks.subtitle': 'Текущая и лучшая серия подряд',
+  'history.csv.subtitle': 'Чек-ины и выполненные задачи для таблиц',
+  'diagnostics.source.goal': 'Цели',
+  'diagnostics.source.task': 'Задача',
+  'diagnostics.source.snooze': 'Задача (отложено)',
+  'diagnostics.source.checkin': 'Чек-ин',
+  'diagnostics.source.test': 'Тест',
+  'diagnostics.source.none': 'Без источника',
+  'diagnostics.source.withTask': '{label}: {task}',
+  'diagnostics.deletedTask': 'удалённая задача',
+  'diagnostics.noResponse': 'Без ответа',
+  'diagnostics.title': 'Диагностика уведомлений',
+  'diagnostics.subtitle': 'Что запланировано и что уже было доставлено',
+  'diagnostics.check.title': 'Проверка',
+  'diagnostics.check.sendTest': 'Отправить тестовое уведомление',
+  'diagnostics.check.refresh': 'Обновить',
+  'diagnostics.check.hint': 'Тестовое уведомление приходит через несколько секунд, даже в тихие часы.',
+  'diagnostics.scheduled.title': 'Запланировано',
+  'common.loading': 'Загружаем…',
+  'diagnostics.scheduled.empty': 'Ничего не запланировано. Проверьте, включены ли напоминания.',
+  'diagnostics.scheduled.unknownTime': 'время неизвестно',
+  'diagnostics.scheduled.trigger': 'Триггер: {type} · {id}',
+  'diagnostics.log.title': 'Доставки и нажатия',
+  'diagnostics.log.empty': 'Журнал пока пуст.',
+  'diagnostics.log.hint':
+    'Уведомления по расписанию считаются доставленными, когда наступило их время. Нажатия записываются, даже если приложение было закрыто.',
+  'diagnostics.scheduled.titleCount': 'Запланировано ({count})',
+  'diagnostics.scheduled.subtitle': 'Уведомления, которые сейчас ждут своего времени в системе',
+  'diagnostics.log.subtitle': 'Последние {count} доставленных уведомлений',
+  'common.days': { one: '{count} день', few: '{count} дня', many: '{count} дней', other: '{count} дня' },
+  'timing.shift.more': 'чаще',
+  'timing.shift.less': 'реже',
+  'timing.shift.same': 'как обычно',
+  'timing.status.off': 'Адаптация выключена: напоминания распределяются по окну равномерно.',
+  'timing.status.collecting':
+    'Собираем статистику: {delivered} из {required} доставленных напоминаний за {period}. Пока время выбирается равномерно.',
+  'timing.status.active':
+    'За {period} доставлено {delivered}, открыто {responded}. Напоминания смещаются к часам, когда вы чаще реагируете.',
+  'timing.title': 'Время напоминаний',
+  'timing.subtitle': 'Почему напоминания приходят именно в эти часы',
+  'timing.adaptive.title': 'Адаптивное время',
+  'timing.adaptive.toggle': 'Подстраивать под мои ответы',
+  'timing.hours.title': 'По часам',
+  'timing.hours.loading': 'Загружаем статистику…',
+  'timing.hours.hint':
+    'Открытием считается нажатие на уведомление или кнопку в нём. Часы без данных сохраняют свою долю, чтобы время могло вернуться.',
+  'timing.hours.subtitle': 'Открыто / доставлено и доля напоминаний в этот час',
+  'tasks.reminders.off': 'Напоминания выключены',
+  'tasks.reminders.noTime': 'время не выбрано',
+  'tasks.reminders.fixed': 'Фиксированно: {days}, в {times}',
+  'tasks.reminders.random': 'Случайно: {days}, {start}-{end}, {times}',
+  'common.times': { one: '{count} раз', few: '{count} раза', many: '{count} раз', other: '{count} раза' },
+  'packs.summary': 'Целей: {goals}, блоков: {blocks}, подсказок: {suggestions}, фраз: {reminders}',
+  'alerts.categoryTitle.title': 'Нужно название',
+  'alerts.categoryTitle.message': 'Введите название категории, например «Терпение».',
+  'alerts.checkinScore.title': 'Выберите оценку',
+  'alerts.checkinScore.message': 'Нужно выбрать оценку дня от 1 до 5.',
+  'alerts.checkinSaved.title': 'Сохранено',
+  'alerts.checkinSaved.message': 'Чекин за сегодня сохранен.',
+  'alerts.dayUnavailable.title': 'День недоступен',
+  'alerts.dayUnavailable.message': 'Этот день вне окна дозаполнения чек-инов.',
+  'alerts.deleteCheckin.title': 'Удалить чек-ин?',
+  'alerts.deleteCheckin.message': 'Запись за {date} будет удалена.',
+  'common.cancel': 'Отмена',
+  'common.delete': 'Удалить',
+  'alerts.titleRequired': 'Нужен заголовок',
+  'alerts.blockTitle.message': 'Введите название блока.',
+  'alerts.deleteBlock.title': 'Удалить блок?',
+  'alerts.deleteBlock.message':
+    '«{title}» и {tasks} в нём переместятся в корзину. Восстановить можно в течение {days}.',
+  'common.tasks': { one: '{count} задача', few: '{count} задачи', many: '{count} задач', other: '{count} задачи' },
+  'alerts.packInstalled.title': 'Набор уже установлен',
+  'alerts.packInstalled.message': '«{title}» уже есть в версии {version}.',
+  'alerts.packUpdated': 'Набор обновлён',
+  'alerts.packAdded': 'Набор установлен',
+  'alerts.packVersion': '«{title}», версия {version}.',
+  'alerts.fileOpen.title': 'Не удалось открыть файл',
+  'alerts.fileOpen.message': 'Попробуйте выбрать файл ещё раз.',
+  'alerts.wrongFile.title': 'Файл не подходит',
+  'alerts.wrongFile.pack': 'Выберите набор шаблонов Character+ в формате JSON.',
+  'alerts.newBlockTitle.message': 'Введите название нового блока.',
+  'goals.defaultAction': 'Новый шаг в развитии себя',
+  'alerts.invalidTime.title': 'Некорректное время',
+  'alerts.invalidTime.message': 'Введите время в формате ЧЧ:ММ, например 09:30.',
+  'alerts.wizardStep.title': 'Заполните шаг',
+  'alerts.wizardStep.message': 'Добавьте данные на текущем этапе, чтобы продолжить.',
+  'alerts.taskTitle.message': 'Введите название задачи.',
+  'alerts.taskDescription.title': 'Нужно описание',
+  'alerts.taskDescription.message': 'Опишите, что именно нужно делать.',
+  'alerts.taskMotivation.title': 'Нужна мотивация',
+  'alerts.taskMotivation.message': 'Добавьте вашу мотивацию для задачи.',
+  'alerts.taskReminders.title': 'Проверьте напоминания',
+  'alerts.taskReminders.message': 'Выберите дни недели и корректное время для напоминаний.',
+  'tasks.copyTitle': '{title} (копия)',
+  'alerts.restore.title': 'Не удалось восстановить',
+  'alerts.restore.task': 'Блок этой задачи удалён. Сначала восстановите блок.',
+  'alerts.restore.block': 'Блок с таким названием уже добавлен. Удалите его, чтобы восстановить этот.',
+  'alerts.deleteForever.title': 'Удалить навсегда?',
+  'alerts.deleteForever.message': '«{title}» нельзя будет восстановить.',
+  'alerts.emptyTrash.title': 'Очистить корзину?',
+  'alerts.emptyTrash.message': 'Все удалённые блоки и задачи будут стёрты без возможности восстановления.',
+  'alerts.emptyTrash.confirm': 'Очистить',
+  'alerts.notificationsDenied.title': 'Уведомления недоступны',
+  'alerts.notificationsDenied.message': 'Разрешите уведомления для Character+ в настройках устройства.',
+  'alerts.sendFailed': 'Не удалось отправить',
+  'alerts.tryLater': 'Попробуйте ещё раз чуть позже.',
+  'alerts.exportFailed': 'Не удалось экспортировать',
+  'backup.exportDialog': 'Экспорт данных Character+',
+  'backup.csvDialog': 'Экспорт прогресса в CSV',
+  'alerts.wrongFile.backup': 'Выберите резервную копию Character+ в формате JSON.',
+  'alerts.imported.title': 'Готово',
+  'alerts.imported.merge': 'Данные объединены.',
+  'alerts.imported.replace': 'Данные заменены.',
+  'alerts.nameRequired.title': 'Нужно имя',
+  'alerts.nameRequired.message': 'Добавьте имя, чтобы завершить приветствие.',
+  'alerts.goalRequired.title': 'Выберите цель',
+  'alerts.goalRequired.message': 'Выберите хотя бы одну цель, чтобы пройти дальше.',
+  'settings.goals.title': 'Выберите цели',
+  'settings.goals.subtitle': 'Отметьте направления, в которых хотите развивать себя',
+  'settings.goals.actionPlaceholder': 'Например: говорить спокойнее в сложных ситуациях',
+  'settings.goals.addCategory': '+ Своя категория',
+  'settings.packs.title': 'Наборы шаблонов',
+  'settings.packs.subtitle': 'Готовые цели, блоки, подсказки задач и фразы напоминаний',
+  'settings.packs.version': '{title} · версия {version}',
+  'settings.packs.remove': 'Удалить набор',
+  'settings.packs.install': 'Установить «{title}»',
+  'settings.packs.import': 'Импорт набора из файла',
+  'settings.packs.hint':
+    'При выключении набора его цели остаются, пока вы их не снимете. Удаление убирает и цели из набора.',
+  'settings.reminders.title': 'Напоминания',
+  'settings.reminders.subtitle': 'Настройте push-уведомления в удобном режиме',
+  'common.enableReminders': 'Включить напоминания',
+  'common.from': 'С',
+  'common.to': 'До',
+  'common.time': 'Время',
+  'settings.reminders.perDay': 'Раз в день',
+  'common.minGap': 'Мин. интервал',
+  'common.minutes': '{minutes} мин',
+  'settings.reminders.windowStart': 'Начало окна',
+  'settings.reminders.windowEnd': 'Конец окна',
+  'settings.reminders.hint':
+    'Активных целей: {goals}. Напоминания приходят в случайное время в интервале {start}-{end}, каждый день по-новому.',
+  'settings.reminders.adaptiveOn': 'Адаптивное время: почему так?',
+  'settings.reminders.adaptiveOff': 'Адаптивное время выключено',
+  'settings.checkin.title': 'Вечерний чек-ин',
+  'settings.checkin.subtitle': 'Напоминание оценить день, если чек-ин ещё не заполнен',
+  'settings.checkin.remind': 'Напоминать о чек-ине',
+  'settings.checkin.hint': 'Если чек-ин за день уже сохранён, напоминание не придёт.',
+  'settings.pause.title': 'Пауза уведомлений',
+  'settings.pause.subtitle': 'Тихие часы, дни без напоминаний и отпуск',
+  'settings.pause.quietHours': 'Тихие часы',
+  'settings.pause.mutedDays': 'Дни без напоминаний',
+  'settings.pause.vacationFrom': 'Отпуск с',
+  'settings.pause.vacationTo': 'Отпуск по',
+  'settings.pause.endVacation': 'Завершить отпуск',
+  'settings.pause.startVacation': 'Начать отпуск',
+  'settings.pause.vacationHint':
+    'В отпуске напоминания не приходят, а эти дни не прерывают серии и не учитываются в процентах истории.',
+  'settings.time.title': 'Время и часовой пояс',
+  'settings.time.subtitle': 'Как считаются дни и когда приходят напоминания',
+  'settings.time.homeZone': 'Домашний часовой пояс',
+  'settings.time.deviceZone': 'Дни и напоминания следуют часовому поясу устройства ({device}).',
+  'settings.time.homeZoneHint': 'Дни и напоминания считаются по поясу {home}, даже если вы уедете.',
+  'settings.time.travelHint':
+    'Устройство сейчас в поясе {device}, а дни и напоминания считаются по домашнему поясу {home}.',
+  'settings.time.dayStart': 'Новый день начинается в',
+  'settings.time.lateHint': 'Чек-ины и задачи до {hour} засчитываются в предыдущий день.',
+  'settings.time.midnightHint': 'День заканчивается в полночь.',
+  'tasks.empty': 'Пока нет задач. Нажмите кнопку выше, чтобы добавить первую.',
+  'tasks.motivation': 'Мотивация',
+  'tasks.skippedToday': 'Пропущено сегодня',
+  'tasks.doneToday': 'Сделано сегодня',
+  'tasks.markDone': 'Отметить выполнение',
+  'tasks.archivedSince': 'В архиве с {date}',
+  'tasks.unarchive': 'Вернуть из архива',
+  'tasks.reorderHint': 'Перетащите задачи и нажмите ✓, чтобы применить',
+  'tasks.add': '+ Добавить задачу',
+  'tasks.reorder': 'Упорядочить',
+  'tasks.hideArchive': 'Скрыть архив',
+  'tasks.showArchive': 'Архив задач ({count})',
+  'blocks.reorderHint': 'Перетащите блоки и нажмите ✓, чтобы применить',
+  'blocks.dragging': 'Перетаскивание',
+  'app.loading': 'Загрузка Character+...',
+  'onboarding.title': 'Добро пожаловать в Character+',
+  'onboarding.subtitle': 'Пройдите короткую первичную настройку в 3 шага.',
+  'onboarding.step': 'Шаг {step} из {total}',
+  'onboarding.nameLabel': 'Как к вам обращаться?',
+  'onboarding.namePlaceholder': 'Введите имя',
+  'onboarding.almostDone': 'Почти готово, {name}.',
+  'onboarding.goals': 'Выбрано целей: {count}',
+  'onboarding.remindersOn': 'Напоминания: включены, {times} в день',
+  'onboarding.remindersOff': 'Напоминания: выключены, {times} в день',
+  'onboarding.window': 'Окно: {start}-{end}',
+  'common.back': 'Назад',
+  'common.next': 'Далее',
+  'common.finish': 'Завершить',
+  'topBar.goals': 'Цели: {count}',
+  'topBar.checkin': 'Чек-ин: {score}',
+  'topBar.weekly': '7д: {percent}%',
+  'topBar.streak': 'Серия: {count}',
+  'undo.undone': 'Отменено: {action}',
+  'undo.redo': 'Повторить',
+  'undo.undo': 'Отменить',
+  'tasks.wizard.title': 'Название задачи',
+  'tasks.wizard.description': 'Описание задачи',
+  'tasks.titlePlaceholder': 'Введите название задачи',
+  'tasks.descriptionPlaceholder': 'Опишите, что именно и как вы хотите делать по этой задаче',
+  'tasks.motivationPlaceholder': 'Укажите вашу мотивацию - ради чего или кого вы меняетесь',
+  'tasks.image.upload': 'Загрузить',
+  'tasks.image.hint': 'Сюда можно загрузить фотографию, которая вас будет мотивировать.',
+  'tasks.mode.fixed': 'Фиксированное время',
+  'tasks.mode.random': 'Случайно в промежутке',
+  'tasks.weekdays': 'Дни недели',
+  'tasks.fixedTimes': 'Точное время (можно добавить несколько)',
+  'tasks.timePlaceholder': 'Например 09:30',
+  'common.add': 'Добавить',
+  'tasks.window': 'Временное окно',
+  'tasks.timesInWindow': 'Раз в окне',
+  'tasks.create': 'Создать задачу',
+  'tasks.editTitle': 'Редактирование задачи',
+  'tasks.field.title': 'Название',
+  'tasks.field.description': 'Описание',
+  'tasks.duplicate': 'Дублировать',
+  'tasks.moveToBlock': 'В другой блок…',
+  'tasks.archive': 'В архив',
+  'common.save': 'Сохранить',
+  'common.close': 'Закрыть',
+  'tasks.image.title': 'Изображение мотивации',
+  'tasks.image.placeholder': 'Вставьте ссылку или локальный путь к фото',
+  'tasks.image.saveHint': 'После сохранения фото будет отображаться в задаче.',
+  'blocks.fallbackTitle': 'Блок',
+  'blocks.rename': 'Переименовать',
+  'blocks.delete': 'Удалить блок',
+  'blocks.renameTitle': 'Название блока',
+  'blocks.titlePlaceholder': 'Введите название',
+  'goals.category.editTitle': 'Категория цели',
+  'goals.category.newTitle': 'Новая категория цели',
+  'goals.category.titlePlaceholder': 'Название, например «Терпение»',
+  'goals.category.descriptionPlaceholder': 'Что хотите развивать',
+  'goals.category.color': 'Цвет',
+  'goals.category.reminders': 'Фразы для напоминаний',
+  'goals.category.remindersPlaceholder': 'Каждая фраза с новой строки',
+  'goals.category.remindersHint': 'Фразы чередуются с вашими целями в push-напоминаниях.',
+  'goals.category.delete': 'Удалить категорию',
+  'blocks.addTitle': 'Добавление блока',
+  'blocks.addNew': 'Добавить новый блок',
+  'blocks.addTemplate': 'Добавить шаблон: {title}',
+  'blocks.addFromPack': 'Добавить из набора: {title}',
+  'checkin.editTitle': 'Чек-ин за {date}',
+  'checkin.lateHint': 'Запись будет отмечена как внесённая позже.',
+  'checkin.delete': 'Удалить чек-ин',
+  'tasks.moveTitle': 'Перенести в блок',
+  'trash.hint': 'Удалённые блоки и задачи хранятся {days}, затем стираются автоматически.',
+  'trash.empty': 'Корзина пуста.',
+  'trash.task': 'Задача · {block}',
+  'trash.blockDeleted': 'блок удалён',
+  'trash.block': 'Блок · {tasks}',
+  'trash.deletedAt': 'Удалено {date}, осталось: {days}',
+  'trash.restore': 'Восстановить',
+  'trash.deleteForever': 'Удалить навсегда',
+  'import.title': 'Импорт данных',
+  'import.merge': 'Объединить',
+  'import.replace': 'Заменить',
+  'import.mergeHint':
+    'Новые записи добавятся, совпадающие обновятся из файла. Профиль и настройки напоминаний останутся прежними.',
+  'import.replaceHint': 'Все текущие данные будут заменены содержимым файла.',
+  'import.updated': 'изменится {count}',
+  'import.removed': 'удалится {count}',
+  'import.unchanged': 'без изменений',
+  'import.confirm': 'Импортировать',
+  'blocks.newTitle': 'Новый блок',
+  'profile.theme.title': 'Оформление',
+  'profile.theme.subtitle': 'Светлая или тёмная тема интерфейса',
+  'profile.theme.system': 'Как в системе',
+  'profile.theme.light': 'Светлая',
+  'profile.theme.dark': 'Тёмная',
+  'common.records': { one: '{count} запись', few: '{count} записи', many: '{count} записей', other: '{count} записи' },
+  'alerts.dataRepaired.title': 'Часть данных повреждена',
+  'alerts.dataRepaired.message':
+    'Не удалось прочитать {records}, они пропущены. Остальные данные на месте, а копия исходных данных сохранена — её можно экспортировать.',
+  'alerts.dataReset.title': 'Не удалось прочитать данные',
+  'alerts.dataReset.message':
+    'Приложение запущено с чистого листа. Копия исходных данных сохранена — её можно экспортировать.',
+  'alerts.quarantine.export': 'Экспортировать копию',
+  'diagnostics.suppressed': 'Не показано: уже выполнено или пауза',
+  'suggestions.traits.calmReaction': 'Спокойная реакция',
+  'suggestions.traits.smallDiscipline': 'Дисциплина в мелочах',
+  'suggestions.traits.confidentTone': 'Уверенный тон',
+  'suggestions.traits.focus': 'Фокус без отвлечений',
+  'suggestions.habits.morningExercise': 'Утренняя зарядка',
+  'suggestions.habits.reading': 'Чтение 20 минут',
+  'suggestions.habits.dayPlan': 'План на день',
+  'suggestions.habits.earlyBed': 'Ранний отход ко сну',
+  'suggestions.emotions.pause': 'Пауза перед ответом',
+  'suggestions.emotions.irritation': 'Контроль раздражения',
+  'suggestions.emotions.relaxation': 'Техники расслабления',
+  'suggestions.emotions.anxiety': 'Управление тревогой',
+  'suggestions.values.honesty': 'Быть честным',
+  'suggestions.values.respect': 'Уважение к близким',
+  'suggestions.values.consistency': 'Последовательность',
+  'suggestions.values.responsibility': 'Ответственность и честность',
+};
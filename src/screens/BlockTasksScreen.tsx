@@ -0,0 +1,451 @@
+import { useMemo, useState } from 'react';
+import { Animated, Image, Pressable, StyleSheet, Text, View } from 'react-native';
+import { TaskEditModal } from '../components/TaskEditModal';
+import { TaskWizardModal } from '../components/TaskWizardModal';
+import { BLOCK_TITLE_SUGGESTIONS } from '../constants/blocks';
+import { DragReorder } from '../hooks/useDragReorder';
+import { I18n } from '../i18n';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { selectArchivedBlockTasks, selectBlockTasks } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { BlockTask, SettingsBlock, TaskReminderSettings, TaskSuggestion, TemplateBlockKind } from '../types';
+import { Clock } from '../utils/clock';
+import { dateKeyOf, displayDate, hourLabel, weekdayLabel } from '../utils/date';
+import { findCompletion, isTaskSkipped } from '../utils/tasks';
+import { packTaskSuggestions } from '../utils/templatePacks';
+
+const TASK_ROW_HEIGHT = 56;
+const TASK_ROW_GAP = 8;
+export const TASK_ROW_STEP = TASK_ROW_HEIGHT + TASK_ROW_GAP;
+
+interface BlockTasksScreenProps {
+  block: SettingsBlock;
+  drag: DragReorder<BlockTask>;
+  today: string;
+  clock: Clock;
+}
+
+function taskReminderSummary(reminders: TaskReminderSettings, { locale, t }: I18n): string {
+  if (!reminders.enabled) {
+    return t('tasks.reminders.off');
+  }
+
+  const days = reminders.config.weekdays.map((day) => weekdayLabel(day, locale)).join(', ');
+  if (reminders.config.mode === 'fixed') {
+    const times = reminders.config.times.length ? reminders.config.times.join(', ') : t('tasks.reminders.noTime');
+    return t('tasks.reminders.fixed', { days, times });
+  }
+
+  return t('tasks.reminders.random', {
+    days,
+    start: hourLabel(reminders.config.startHour),
+    end: hourLabel(reminders.config.endHour),
+    times: t('common.times', { count: reminders.config.timesInWindow }),
+  });
+}
+
+export function BlockTasksScreen({ block, drag, today, clock }: BlockTasksScreenProps) {
+  const [state, dispatch] = useAppStore();
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const styles = useThemedStyles(createStyles);
+  const [showArchived, setShowArchived] = useState(false);
+  const [wizardBlockId, setWizardBlockId] = useState<string | null>(null);
+  const [editingTask, setEditingTask] = useState<BlockTask | null>(null);
+  const tasks = useMemo(() => selectBlockTasks(state, block.id), [block.id, state]);
+  const archivedTasks = useMemo(() => selectArchivedBlockTasks(state, block.id), [block.id, state]);
+  const draggingTask = drag.draftItems.find((task) => task.id === drag.draggingId) ?? null;
+  const moveTargets = useMemo(
+    () => state.settingsBlocks.filter((item) => item.id !== block.id),
+    [block.id, state.settingsBlocks],
+  );
+
+  const titleSuggestions = useMemo((): TaskSuggestion[] => {
+    const builtIn =
+      block.kind === 'custom'
+        ? []
+        : BLOCK_TITLE_SUGGESTIONS[block.kind as TemplateBlockKind].map((key) => ({ title: t(key) }));
+    const suggestions = [...builtIn, ...packTaskSuggestions(state.templatePacks, block)];
+    return suggestions.filter((item, index) => suggestions.findIndex((other) => other.title === item.title) === index);
+  }, [block, state.templatePacks, t]);
+
+  const applyReorder = () => {
+    const ordered = drag.commit();
+    if (ordered) {
+      dispatch({ type: 'reorderTasks', blockId: block.id, taskIds: ordered.map((task) => task.id) });
+    }
+  };
+
+  const moveToTrash = (taskId: string) => {
+    const deletedAt = new Date();
+    dispatch({
+      type: 'deleteTask',
+      blockId: block.id,
+      taskId,
+      trashId: `trash-${deletedAt.getTime()}`,
+      deletedAt: deletedAt.toISOString(),
+    });
+  };
+
+  const renderTaskCards = () => {
+    if (tasks.length === 0) {
+      return <Text style={styles.helper}>{t('tasks.empty')}</Text>;
+    }
+
+    return (
+      <View style={styles.taskList}>
+        {tasks.map((task) => {
+          const doneToday = Boolean(findCompletion(state.taskCompletions, task.id, today));
+          const skippedToday = !doneToday && isTaskSkipped(state.taskSkips, task.id, today);
+          return (
+            <Pressable
+              key={task.id}
+              style={styles.taskCard}
+              onPress={() => setEditingTask(task)}
+              onLongPress={() => {
+                if (tasks.length > 1) {
+                  drag.enterReorderMode(tasks);
+                }
+              }}
+              delayLongPress={300}
+            >
+              <Text style={styles.taskCardTitle}>{task.title}</Text>
+              <Text style={styles.taskCardText}>{task.description}</Text>
+              <Text style={styles.taskCardLabel}>{t('tasks.motivation')}</Text>
+              <Text style={styles.taskCardText}>{task.motivation}</Text>
+              {task.motivationImageUri ? <Image source={{ uri: task.motivationImageUri }} style={styles.taskImage} /> : null}
+              <Text style={styles.taskReminderText}>{taskReminderSummary(task.reminders, i18n)}</Text>
+              {skippedToday ? <Text style={styles.taskSkippedText}>{t('tasks.skippedToday')}</Text> : null}
+              <Pressable
+                style={[styles.taskDoneBtn, doneToday ? styles.taskDoneBtnActive : null]}
+                onPress={(event) => {
+                  event.stopPropagation();
+                  dispatch({ type: 'toggleTaskCompletion', taskId: task.id, date: today });
+                }}
+              >
+                <Text style={[styles.taskDoneBtnText, doneToday ? styles.taskDoneBtnTextActive : null]}>
+                  {doneToday ? `\u2713 ${t('tasks.doneToday')}` : t('tasks.markDone')}
+                </Text>
+              </Pressable>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderReorderList = () => (
+    <View style={styles.reorderList} {...drag.panHandlers}>
+      {drag.draftItems.map((task) => {
+        const isDragging = drag.draggingId === task.id;
+        return (
+          <Pressable
+            key={task.id}
+            style={[styles.reorderRow, isDragging ? styles.reorderRowGhost : null]}
+            onPressIn={() => drag.startDragFromPress(task.id)}
+            onPressOut={() => {
+              if (isDragging) {
+                drag.finishDrag();
+              }
+            }}
+            disabled={Boolean(drag.draggingId) && !isDragging}
+          >
+            <Text style={styles.reorderTitle} numberOfLines={1}>
+              {task.title}
+            </Text>
+            <Text style={styles.reorderHandle}>{'\u2261'}</Text>
+          </Pressable>
+        );
+      })}
+
+      {draggingTask ? (
+        <Animated.View
+          style={[
+            styles.dragOverlay,
+            { top: drag.dragOriginIndex * TASK_ROW_STEP, transform: [{ translateY: drag.dragY }] },
+          ]}
+        >
+          <View style={[styles.reorderRow, styles.dragOverlayRow]}>
+            <Text style={styles.reorderTitle} numberOfLines={1}>
+              {draggingTask.title}
+            </Text>
+            <Text style={styles.reorderHandle}>{'\u2261'}</Text>
+          </View>
+        </Animated.View>
+      ) : null}
+    </View>
+  );
+
+  const renderArchivedTasks = () => (
+    <View style={styles.taskList}>
+      {archivedTasks.map((task) => (
+        <View key={task.id} style={[styles.taskCard, styles.taskCardArchived]}>
+          <Text style={styles.taskCardTitle}>{task.title}</Text>
+          <Text style={styles.taskCardText}>{task.description}</Text>
+          {task.archivedAt ? (
+            <Text style={styles.hint}>
+              {t('tasks.archivedSince', { date: displayDate(dateKeyOf(task.archivedAt, clock), locale) })}
+            </Text>
+          ) : null}
+          <View style={styles.taskCardActions}>
+            <Pressable
+              style={styles.taskDoneBtn}
+              onPress={() => dispatch({ type: 'unarchiveTask', blockId: block.id, taskId: task.id })}
+            >
+              <Text style={styles.taskDoneBtnText}>{t('tasks.unarchive')}</Text>
+            </Pressable>
+            <Pressable style={styles.taskDoneBtn} onPress={() => moveToTrash(task.id)}>
+              <Text style={[styles.taskDoneBtnText, styles.dangerText]}>{t('common.delete')}</Text>
+            </Pressable>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <>
+      <Text style={styles.title}>{block.title}</Text>
+
+      {drag.isReorderMode ? (
+        <>
+          <Text style={styles.reorderHint}>{t('tasks.reorderHint')}</Text>
+          {renderReorderList()}
+          <Pressable style={styles.applyBtn} onPress={applyReorder}>
+            <Text style={styles.applyBtnText}>{'\u2713'}</Text>
+          </Pressable>
+        </>
+      ) : (
+        <>
+          <View style={styles.topActions}>
+            <Pressable style={styles.topBtn} onPress={() => setWizardBlockId(block.id)}>
+              <Text style={styles.topBtnText}>{t('tasks.add')}</Text>
+            </Pressable>
+            {tasks.length > 1 ? (
+              <Pressable style={styles.topBtn} onPress={() => drag.enterReorderMode(tasks)}>
+                <Text style={styles.topBtnText}>{t('tasks.reorder')}</Text>
+              </Pressable>
+            ) : null}
+          </View>
+
+          {renderTaskCards()}
+        </>
+      )}
+
+      {archivedTasks.length > 0 ? (
+        <Pressable style={styles.archiveToggleBtn} onPress={() => setShowArchived((prev) => !prev)}>
+          <Text style={styles.archiveToggleText}>
+            {showArchived ? t('tasks.hideArchive') : t('tasks.showArchive', { count: archivedTasks.length })}
+          </Text>
+        </Pressable>
+      ) : null}
+
+      {showArchived ? renderArchivedTasks() : null}
+
+      <TaskWizardModal blockId={wizardBlockId} suggestions={titleSuggestions} onClose={() => setWizardBlockId(null)} />
+      <TaskEditModal
+        block={block}
+        task={editingTask}
+        suggestions={titleSuggestions}
+        moveTargets={moveTargets}
+        onClose={() => setEditingTask(null)}
+      />
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    title: {
+      color: colors.text,
+      fontWeight: '800',
+      fontSize: 32,
+      width: '100%',
+      textAlign: 'center',
+      marginBottom: 16,
+      paddingTop: 30,
+      paddingBottom: 30,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      lineHeight: 18,
+    },
+    dangerText: {
+      color: colors.danger,
+    },
+    topActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 10,
+    },
+    topBtn: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      backgroundColor: colors.surface,
+      marginTop: 0,
+      paddingVertical: 10,
+      paddingHorizontal: 12,
+      alignSelf: 'flex-start',
+      marginBottom: 18,
+    },
+    topBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    taskList: {
+      gap: 10,
+      marginTop: 4,
+    },
+    taskCard: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      backgroundColor: colors.surfaceMuted,
+      padding: 12,
+      gap: 6,
+    },
+    taskCardArchived: {
+      opacity: 0.75,
+    },
+    taskCardTitle: {
+      color: colors.text,
+      fontSize: 17,
+      fontWeight: '800',
+    },
+    taskCardLabel: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+      marginTop: 4,
+    },
+    taskCardText: {
+      color: colors.textSecondary,
+      lineHeight: 19,
+    },
+    taskImage: {
+      width: '100%',
+      height: 170,
+      borderRadius: 10,
+      backgroundColor: colors.surfaceAccent,
+      marginTop: 4,
+    },
+    taskReminderText: {
+      color: colors.accentText,
+      fontWeight: '600',
+      marginTop: 4,
+    },
+    taskSkippedText: {
+      color: colors.warningText,
+      fontWeight: '600',
+    },
+    taskCardActions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    taskDoneBtn: {
+      alignSelf: 'flex-start',
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 999,
+      paddingVertical: 7,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surface,
+      marginTop: 4,
+    },
+    taskDoneBtnActive: {
+      backgroundColor: colors.success,
+      borderColor: colors.success,
+    },
+    taskDoneBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+      fontSize: 13,
+    },
+    taskDoneBtnTextActive: {
+      color: colors.onAccent,
+    },
+    reorderHint: {
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    reorderList: {
+      position: 'relative',
+    },
+    reorderRow: {
+      height: TASK_ROW_HEIGHT,
+      marginBottom: TASK_ROW_GAP,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.borderStrong,
+      backgroundColor: colors.surfaceMuted,
+      paddingHorizontal: 14,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    reorderRowGhost: {
+      opacity: 0.1,
+    },
+    reorderTitle: {
+      flex: 1,
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    reorderHandle: {
+      color: colors.textMuted,
+      fontSize: 20,
+      fontWeight: '700',
+    },
+    dragOverlay: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      zIndex: 20,
+    },
+    dragOverlayRow: {
+      marginBottom: 0,
+      shadowColor: colors.shadow,
+      shadowOpacity: 0.2,
+      shadowOffset: { width: 0, height: 8 },
+      shadowRadius: 12,
+      elevation: 6,
+    },
+    applyBtn: {
+      alignSelf: 'center',
+      minWidth: 76,
+      paddingHorizontal: 18,
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: colors.accent,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    applyBtnText: {
+      color: colors.onAccent,
+      fontWeight: '800',
+      letterSpacing: 0.5,
+    },
+    archiveToggleBtn: {
+      alignSelf: 'flex-start',
+      marginTop: 16,
+      marginBottom: 10,
+      paddingVertical: 6,
+    },
+    archiveToggleText: {
+      color: colors.textMuted,
+      fontWeight: '700',
+    },
+  });
+}
@@ -0,0 +1,374 @@
+import { useMemo, useState } from 'react';
+import { Alert, Animated, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { ModalAction, ModalButton, ModalButtons, ModalCard, ModalDismiss } from '../components/ModalCard';
+import { DragReorder } from '../hooks/useDragReorder';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { selectMissingTemplateBlocks } from '../store/selectors';
+import { blockColor, ThemeColors } from '../theme';
+import { useTheme, useThemedStyles } from '../theme/context';
+import { SettingsBlock, TemplateBlockKind } from '../types';
+import { packBlockTemplates } from '../utils/templatePacks';
+import { TRASH_RETENTION_DAYS } from '../utils/trash';
+
+const SETTINGS_CARD_HEIGHT = 96;
+const SETTINGS_CARD_GAP = 12;
+export const SETTINGS_CARD_STEP = SETTINGS_CARD_HEIGHT + SETTINGS_CARD_GAP;
+
+interface BlocksScreenProps {
+  drag: DragReorder<SettingsBlock>;
+  onOpenBlock: (blockId: string) => void;
+}
+
+export function BlocksScreen({ drag, onOpenBlock }: BlocksScreenProps) {
+  const [state, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [menuBlockId, setMenuBlockId] = useState<string | null>(null);
+  const [renameBlockId, setRenameBlockId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isAddModalVisible, setIsAddModalVisible] = useState(false);
+  const [newBlockName, setNewBlockName] = useState<string | null>(null);
+  const visibleBlocks = drag.isReorderMode ? drag.draftItems : state.settingsBlocks;
+  const menuBlock = state.settingsBlocks.find((block) => block.id === menuBlockId) ?? null;
+  const draggingBlock = visibleBlocks.find((block) => block.id === drag.draggingId) ?? null;
+  const missingTemplateBlocks = useMemo(() => selectMissingTemplateBlocks(state), [state]);
+  const missingPackBlocks = useMemo(
+    () => packBlockTemplates(state.templatePacks, state.settingsBlocks),
+    [state.settingsBlocks, state.templatePacks],
+  );
+
+  const applyReorder = () => {
+    const ordered = drag.commit();
+    if (ordered) {
+      dispatch({ type: 'reorderBlocks', blockIds: ordered.map((block) => block.id) });
+    }
+  };
+
+  const openRename = (block: SettingsBlock) => {
+    setRenameBlockId(block.id);
+    setRenameValue(block.title);
+    setMenuBlockId(null);
+  };
+
+  const applyRename = () => {
+    if (!renameBlockId) {
+      return;
+    }
+
+    const title = renameValue.trim();
+    if (!title) {
+      Alert.alert(t('alerts.titleRequired'), t('alerts.blockTitle.message'));
+      return;
+    }
+
+    dispatch({ type: 'renameBlock', blockId: renameBlockId, title });
+    setRenameBlockId(null);
+  };
+
+  const deleteBlock = (block: SettingsBlock) => {
+    const taskCount = state.sectionTasks[block.id]?.length ?? 0;
+    setMenuBlockId(null);
+
+    Alert.alert(
+      t('alerts.deleteBlock.title'),
+      t('alerts.deleteBlock.message', {
+        title: block.title,
+        tasks: t('common.tasks', { count: taskCount }),
+        days: t('common.days', { count: TRASH_RETENTION_DAYS }),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => {
+            const deletedAt = new Date();
+            dispatch({
+              type: 'deleteBlock',
+              blockId: block.id,
+              trashId: `trash-${deletedAt.getTime()}`,
+              deletedAt: deletedAt.toISOString(),
+            });
+          },
+        },
+      ],
+    );
+  };
+
+  const addTemplateBlock = (kind: TemplateBlockKind) => {
+    dispatch({ type: 'addTemplateBlock', kind, title: t(`blocks.${kind}`) });
+    setIsAddModalVisible(false);
+  };
+
+  const addPackBlock = (packId: string, kind: string) => {
+    dispatch({ type: 'addPackBlock', blockId: `pack-${Date.now()}`, packId, kind });
+    setIsAddModalVisible(false);
+  };
+
+  const addCustomBlock = () => {
+    const title = (newBlockName ?? '').trim();
+    if (!title) {
+      Alert.alert(t('alerts.titleRequired'), t('alerts.newBlockTitle.message'));
+      return;
+    }
+
+    dispatch({ type: 'addCustomBlock', blockId: `custom-${Date.now()}`, title });
+    setNewBlockName(null);
+  };
+
+  return (
+    <View style={styles.gridWrap}>
+      {drag.isReorderMode ? <Text style={styles.reorderHint}>{t('blocks.reorderHint')}</Text> : null}
+      <View style={styles.grid} {...drag.panHandlers}>
+        {visibleBlocks.map((block) => {
+          const isDragging = drag.draggingId === block.id;
+          return (
+            <Pressable
+              key={block.id}
+              style={[
+                styles.card,
+                { backgroundColor: blockColor(block.color, theme) },
+                drag.isReorderMode ? styles.cardReorder : null,
+                isDragging ? styles.cardGhost : null,
+              ]}
+              onPress={() => {
+                if (!drag.isReorderMode) {
+                  onOpenBlock(block.id);
+                }
+              }}
+              onLongPress={() => {
+                if (!drag.isReorderMode) {
+                  drag.startDrag(state.settingsBlocks, block.id);
+                }
+              }}
+              onPressIn={() => drag.startDragFromPress(block.id)}
+              onPressOut={() => {
+                if (drag.draggingId === block.id) {
+                  drag.finishDrag();
+                }
+              }}
+              delayLongPress={180}
+              disabled={Boolean(drag.draggingId) && !isDragging}
+            >
+              <Text style={styles.cardText}>{block.title}</Text>
+              {!drag.isReorderMode ? (
+                <Pressable
+                  style={styles.menuBtn}
+                  onPress={(event) => {
+                    event.stopPropagation();
+                    setMenuBlockId(block.id);
+                  }}
+                >
+                  <Text style={styles.menuBtnText}>{'\u22EE'}</Text>
+                </Pressable>
+              ) : (
+                <Text style={styles.dragHint}>{t('blocks.dragging')}</Text>
+              )}
+            </Pressable>
+          );
+        })}
+
+        {!drag.isReorderMode ? (
+          <Pressable style={[styles.card, styles.addCard]} onPress={() => setIsAddModalVisible(true)}>
+            <Text style={styles.addPlus}>+</Text>
+          </Pressable>
+        ) : null}
+
+        {drag.isReorderMode && draggingBlock ? (
+          <Animated.View
+            style={[
+              styles.dragOverlay,
+              { top: drag.dragOriginIndex * SETTINGS_CARD_STEP, transform: [{ translateY: drag.dragY }] },
+            ]}
+          >
+            <View
+              style={[styles.card, styles.dragOverlayCard, { backgroundColor: blockColor(draggingBlock.color, theme) }]}
+            >
+              <Text style={styles.cardText}>{draggingBlock.title}</Text>
+            </View>
+          </Animated.View>
+        ) : null}
+      </View>
+
+      {drag.isReorderMode ? (
+        <Pressable style={styles.applyBtn} onPress={applyReorder}>
+          <Text style={styles.applyBtnText}>{'\u2713'}</Text>
+        </Pressable>
+      ) : null}
+
+      <ModalCard
+        visible={Boolean(menuBlock)}
+        title={menuBlock?.title ?? t('blocks.fallbackTitle')}
+        onClose={() => setMenuBlockId(null)}
+      >
+        <ModalAction label={t('blocks.rename')} onPress={() => menuBlock && openRename(menuBlock)} />
+        <ModalAction label={t('blocks.delete')} danger onPress={() => menuBlock && deleteBlock(menuBlock)} />
+        <ModalDismiss label={t('common.close')} onPress={() => setMenuBlockId(null)} />
+      </ModalCard>
+
+      <ModalCard
+        visible={Boolean(renameBlockId)}
+        title={t('blocks.renameTitle')}
+        onClose={() => setRenameBlockId(null)}
+      >
+        <TextInput
+          style={styles.input}
+          value={renameValue}
+          onChangeText={setRenameValue}
+          placeholder={t('blocks.titlePlaceholder')}
+        />
+        <ModalButtons>
+          <ModalButton label={t('common.cancel')} onPress={() => setRenameBlockId(null)} />
+          <ModalButton label={t('common.save')} primary onPress={applyRename} />
+        </ModalButtons>
+      </ModalCard>
+
+      <ModalCard visible={isAddModalVisible} title={t('blocks.addTitle')} onClose={() => setIsAddModalVisible(false)}>
+        <ModalAction
+          label={t('blocks.addNew')}
+          onPress={() => {
+            setIsAddModalVisible(false);
+            setNewBlockName('');
+          }}
+        />
+        {missingTemplateBlocks.map((template) => (
+          <ModalAction
+            key={template.kind}
+            label={t('blocks.addTemplate', { title: t(`blocks.${template.kind}`) })}
+            onPress={() => addTemplateBlock(template.kind)}
+          />
+        ))}
+        {missingPackBlocks.map((template) => (
+          <ModalAction
+            key={`${template.packId}/${template.kind}`}
+            label={t('blocks.addFromPack', { title: template.title })}
+            onPress={() => addPackBlock(template.packId, template.kind)}
+          />
+        ))}
+        <ModalDismiss label={t('common.close')} onPress={() => setIsAddModalVisible(false)} />
+      </ModalCard>
+
+      <ModalCard visible={newBlockName !== null} title={t('blocks.newTitle')} onClose={() => setNewBlockName(null)}>
+        <TextInput
+          style={styles.input}
+          value={newBlockName ?? ''}
+          onChangeText={setNewBlockName}
+          placeholder={t('blocks.titlePlaceholder')}
+        />
+        <ModalButtons>
+          <ModalButton label={t('common.cancel')} onPress={() => setNewBlockName(null)} />
+          <ModalButton label={t('common.add')} primary onPress={addCustomBlock} />
+        </ModalButtons>
+      </ModalCard>
+    </View>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    gridWrap: {
+      gap: 8,
+    },
+    grid: {
+      position: 'relative',
+    },
+    reorderHint: {
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    card: {
+      borderRadius: 16,
+      minHeight: SETTINGS_CARD_HEIGHT,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: SETTINGS_CARD_GAP,
+      position: 'relative',
+    },
+    cardText: {
+      color: colors.textSecondary,
+      fontSize: 18,
+      fontWeight: '700',
+      paddingRight: 44,
+    },
+    cardReorder: {
+      borderStyle: 'dashed',
+    },
+    cardGhost: {
+      opacity: 0.1,
+    },
+    menuBtn: {
+      position: 'absolute',
+      right: 8,
+      top: 0,
+      bottom: 0,
+      width: 36,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    menuBtnText: {
+      fontSize: 18,
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    dragHint: {
+      marginTop: 8,
+      color: colors.textMuted,
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    addCard: {
+      alignItems: 'center',
+      borderStyle: 'dashed',
+      borderColor: colors.borderStrong,
+      backgroundColor: colors.surfaceMuted,
+    },
+    addPlus: {
+      fontSize: 34,
+      color: colors.accentText,
+      fontWeight: '600',
+    },
+    dragOverlay: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      zIndex: 20,
+    },
+    dragOverlayCard: {
+      marginBottom: 0,
+      shadowColor: colors.shadow,
+      shadowOpacity: 0.2,
+      shadowOffset: { width: 0, height: 8 },
+      shadowRadius: 12,
+      elevation: 6,
+    },
+    applyBtn: {
+      alignSelf: 'center',
+      minWidth: 76,
+      paddingHorizontal: 18,
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: colors.accent,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    applyBtnText: {
+      color: colors.onAccent,
+      fontWeight: '800',
+      letterSpacing: 0.5,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+    },
+  });
+}
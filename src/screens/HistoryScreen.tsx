@@ -1,40 +1,66 @@
 import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { CheckinHeatmap } from '../components/CheckinHeatmap';
 import { SectionCard } from '../components/SectionCard';
+import { useI18n } from '../i18n/context';
+import { HistorySummary, StreakSummary } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
 import { DailyCheckin } from '../types';
 import { displayDate } from '../utils/date';
 
 export type HistoryRange = 7 | 14 | 30;
 
-const HISTORY_RANGES: HistoryRange[] = [7, 14, 30];
+export type CsvExportRange = 7 | 30 | 90 | 365;
 
-export interface HistorySummary {
-  records: DailyCheckin[];
-  average: string;
-  strongDays: number;
-  completion: number;
-}
+const HISTORY_RANGES: HistoryRange[] = [7, 14, 30];
+const CSV_EXPORT_RANGES: CsvExportRange[] = [7, 30, 90, 365];
 
 interface HistoryScreenProps {
   historyRange: HistoryRange;
   historyData: HistorySummary;
+  streaks: StreakSummary;
+  today: string;
+  checkins: DailyCheckin[];
+  completedTaskTitles: Record<string, string[]>;
+  backfillFrom: string;
+  backfillDays: number;
+  onBackfillDaysChange: (days: number) => void;
+  onEditDay: (date: string) => void;
   isPremium: boolean;
   onRangeSelect: (range: HistoryRange) => void;
   onOpenPremium: () => void;
+  csvExportRange: CsvExportRange;
+  onCsvExportRangeSelect: (range: CsvExportRange) => void;
+  onExportCsv: () => void;
 }
 
 export function HistoryScreen({
   historyRange,
   historyData,
+  streaks,
+  today,
+  checkins,
+  completedTaskTitles,
+  backfillFrom,
+  backfillDays,
+  onBackfillDaysChange,
+  onEditDay,
   isPremium,
   onRangeSelect,
   onOpenPremium,
+  csvExportRange,
+  onCsvExportRangeSelect,
+  onExportCsv,
 }: HistoryScreenProps) {
+  const { locale, t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+
   return (
     <>
-      <Text style={styles.appTitle}>История</Text>
-      <Text style={styles.appSubtitle}>Статистика за 7, 14 или 30 дней</Text>
+      <Text style={styles.appTitle}>{t('history.title')}</Text>
+      <Text style={styles.appSubtitle}>{t('history.subtitle')}</Text>
 
-      <SectionCard title="Период">
+      <SectionCard title={t('history.range.title')}>
         <View style={styles.rangeRow}>
           {HISTORY_RANGES.map((range) => {
             const locked = !isPremium && range > 7;
@@ -54,107 +80,273 @@ export function HistoryScreen({
                 }}
               >
                 <Text style={[styles.rangeText, selected ? styles.rangeTextActive : null]}>
-                  {range}д{locked ? ' (PRO)' : ''}
+                  {t('history.range.days', { count: range })}
+                  {locked ? ' (PRO)' : ''}
                 </Text>
               </Pressable>
             );
           })}
         </View>
-        {!isPremium ? <Text style={styles.helper}>14 и 30 дней доступны в Premium.</Text> : null}
+        {!isPremium ? <Text style={styles.helper}>{t('history.range.premiumHint')}</Text> : null}
       </SectionCard>
 
-      <SectionCard title="Метрики">
-        <Text style={styles.metric}>Записей: {historyData.records.length}</Text>
-        <Text style={styles.metric}>Средний балл: {historyData.average}</Text>
-        <Text style={styles.metric}>Дней с 4-5 баллами: {historyData.strongDays}</Text>
-        <Text style={styles.metric}>Дисциплина: {historyData.completion}%</Text>
+      <SectionCard title={t('history.metrics.title')}>
+        <Text style={styles.metric}>{t('history.metrics.records', { count: historyData.records.length })}</Text>
+        <Text style={styles.metric}>{t('history.metrics.average', { average: historyData.average })}</Text>
+        <Text style={styles.metric}>{t('history.metrics.strongDays', { count: historyData.strongDays })}</Text>
+        <Text style={styles.metric}>{t('history.metrics.completion', { percent: historyData.completion })}</Text>
+        {historyData.vacationDays > 0 ? (
+          <Text style={styles.helper}>{t('history.metrics.vacationDays', { count: historyData.vacationDays })}</Text>
+        ) : null}
+        {historyData.goalAverages.length > 0 ? (
+          <Text style={styles.metricSubtitle}>{t('history.metrics.goalAverages')}</Text>
+        ) : null}
+        {historyData.goalAverages.map((goal) => (
+          <View key={goal.id} style={styles.streakRow}>
+            <Text style={styles.streakTitle}>{goal.title}</Text>
+            <Text style={styles.streakValue}>{goal.count > 0 ? goal.average : '—'}</Text>
+          </View>
+        ))}
+      </SectionCard>
+
+      <SectionCard title={t('history.calendar.title')} subtitle={t('history.calendar.subtitle')}>
+        <CheckinHeatmap
+          today={today}
+          checkins={checkins}
+          completedTaskTitles={completedTaskTitles}
+          backfillFrom={backfillFrom}
+          onEditDay={onEditDay}
+        />
+        <View style={styles.backfillRow}>
+          <Text style={styles.backfillLabel}>{t('history.calendar.backfillDays')}</Text>
+          <View style={styles.counterRow}>
+            <Pressable style={styles.counterBtn} onPress={() => onBackfillDaysChange(backfillDays - 1)}>
+              <Text style={styles.counterBtnText}>-</Text>
+            </Pressable>
+            <Text style={styles.counterValue}>{backfillDays}</Text>
+            <Pressable style={styles.counterBtn} onPress={() => onBackfillDaysChange(backfillDays + 1)}>
+              <Text style={styles.counterBtnText}>+</Text>
+            </Pressable>
+          </View>
+        </View>
       </SectionCard>
 
-      <SectionCard title="Последние записи">
+      <SectionCard title={t('history.streaks.title')} subtitle={t('history.streaks.subtitle')}>
+        <View style={styles.streakRow}>
+          <Text style={styles.streakTitle}>{t('history.streaks.checkins')}</Text>
+          <Text style={styles.streakValue}>
+            {streaks.checkins.current} / {streaks.checkins.longest}
+          </Text>
+        </View>
+        {streaks.goals.map((row) => (
+          <View key={row.id} style={styles.streakRow}>
+            <Text style={styles.streakTitle}>{t('history.streaks.goal', { title: row.title })}</Text>
+            <Text style={styles.streakValue}>
+              {row.streak.current} / {row.streak.longest}
+            </Text>
+          </View>
+        ))}
+        {streaks.tasks.map((row) => (
+          <View key={row.id} style={styles.streakRow}>
+            <Text style={styles.streakTitle}>{row.title}</Text>
+            <Text style={styles.streakValue}>
+              {row.streak.current} / {row.streak.longest}
+            </Text>
+          </View>
+        ))}
+        <Text style={styles.helper}>{t('history.streaks.hint')}</Text>
+      </SectionCard>
+
+      <SectionCard title={t('history.records.title')}>
         {historyData.records.length === 0 ? (
-          <Text style={styles.helper}>За выбранный период пока нет чек-инов.</Text>
+          <Text style={styles.helper}>{t('history.records.empty')}</Text>
         ) : (
           historyData.records.map((item) => (
-            <View key={item.date} style={styles.historyRow}>
+            <Pressable
+              key={item.date}
+              style={styles.historyRow}
+              disabled={item.date < backfillFrom}
+              onPress={() => onEditDay(item.date)}
+            >
               <View>
-                <Text style={styles.historyDate}>{displayDate(item.date)}</Text>
-                <Text style={styles.historyNote}>{item.note || 'Без заметки'}</Text>
+                <Text style={styles.historyDate}>
+                  {displayDate(item.date, locale)}
+                  {item.enteredLate ? <Text style={styles.historyLate}> · {t('history.records.enteredLate')}</Text> : null}
+                </Text>
+                <Text style={styles.historyNote}>{item.note || t('history.records.noNote')}</Text>
               </View>
               <Text style={styles.historyScore}>{item.score}/5</Text>
-            </View>
+            </Pressable>
           ))
         )}
       </SectionCard>
+
+      <SectionCard title={t('history.csv.title')} subtitle={t('history.csv.subtitle')}>
+        <View style={styles.rangeRow}>
+          {CSV_EXPORT_RANGES.map((range) => {
+            const selected = csvExportRange === range;
+            return (
+              <Pressable
+                key={range}
+                style={[styles.rangeBtn, selected ? styles.rangeBtnActive : null]}
+                onPress={() => onCsvExportRangeSelect(range)}
+              >
+                <Text style={[styles.rangeText, selected ? styles.rangeTextActive : null]}>
+                  {t('history.range.days', { count: range })}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Pressable style={styles.primaryBtn} onPress={onExportCsv}>
+          <Text style={styles.primaryBtnText}>{t('history.csv.download')}</Text>
+        </Pressable>
+      </SectionCard>
     </>
   );
 }
 
-const styles = StyleSheet.create({
-  appTitle: {
-    fontSize: 28,
-    fontWeight: '800',
-    color: '#1c2a52',
-  },
-  appSubtitle: {
-    marginTop: 4,
-    marginBottom: 14,
-    color: '#516285',
-  },
-  helper: {
-    color: '#5b6e99',
-    lineHeight: 20,
-    marginTop: 4,
-  },
-  metric: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#1d2b50',
-    marginBottom: 6,
-  },
-  rangeRow: {
-    flexDirection: 'row',
-    gap: 8,
-  },
-  rangeBtn: {
-    flex: 1,
-    borderWidth: 1,
-    borderColor: '#d2deff',
-    borderRadius: 10,
-    alignItems: 'center',
-    paddingVertical: 10,
-    backgroundColor: '#fff',
-  },
-  rangeBtnActive: {
-    backgroundColor: '#4169e1',
-    borderColor: '#4169e1',
-  },
-  rangeText: {
-    color: '#3e5aa4',
-    fontWeight: '700',
-  },
-  rangeTextActive: {
-    color: '#fff',
-  },
-  historyRow: {
-    paddingVertical: 8,
-    borderBottomWidth: 1,
-    borderBottomColor: '#ecf2ff',
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    gap: 10,
-  },
-  historyDate: {
-    color: '#27407d',
-    fontWeight: '700',
-  },
-  historyNote: {
-    color: '#667da7',
-    maxWidth: 230,
-  },
-  historyScore: {
-    fontSize: 16,
-    fontWeight: '800',
-    color: '#2249b7',
-  },
-});
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    appTitle: {
+      fontSize: 28,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    appSubtitle: {
+      marginTop: 4,
+      marginBottom: 14,
+      color: colors.textMuted,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    metric: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 6,
+    },
+    metricSubtitle: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+      marginTop: 4,
+    },
+    rangeRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    rangeBtn: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      alignItems: 'center',
+      paddingVertical: 10,
+      backgroundColor: colors.surface,
+    },
+    rangeBtnActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    rangeText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    rangeTextActive: {
+      color: colors.onAccent,
+    },
+    primaryBtn: {
+      borderRadius: 12,
+      paddingVertical: 12,
+      alignItems: 'center',
+      backgroundColor: colors.accent,
+    },
+    primaryBtnText: {
+      color: colors.onAccent,
+      fontWeight: '700',
+    },
+    streakRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    streakTitle: {
+      flex: 1,
+      color: colors.accentText,
+      fontWeight: '600',
+    },
+    streakValue: {
+      color: colors.accentText,
+      fontWeight: '800',
+    },
+    backfillRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: 10,
+      gap: 10,
+    },
+    backfillLabel: {
+      flex: 1,
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    counterRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    counterBtn: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    counterBtnText: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.accentText,
+    },
+    counterValue: {
+      minWidth: 36,
+      textAlign: 'center',
+      color: colors.text,
+      fontWeight: '700',
+    },
+    historyLate: {
+      color: colors.warningText,
+      fontWeight: '600',
+      fontSize: 12,
+    },
+    historyRow: {
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.divider,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    historyDate: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    historyNote: {
+      color: colors.textMuted,
+      maxWidth: 230,
+    },
+    historyScore: {
+      fontSize: 16,
+      fontWeight: '800',
+      color: colors.accentText,
+    },
+  });
+}
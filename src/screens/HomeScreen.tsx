@@ -1,5 +1,9 @@
 import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
 import { SectionCard } from '../components/SectionCard';
+import { useI18n } from '../i18n/context';
+import { GoalOption } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
 import { DailyCheckin } from '../types';
 
 const SCORE_OPTIONS = [1, 2, 3, 4, 5] as const;
@@ -9,11 +13,18 @@ interface HomeScreenProps {
   activeGoals: number;
   weeklySuccess: number;
   todayCheckin: DailyCheckin | undefined;
+  todayTasksDone: number;
+  todayTasksTotal: number;
   checkinScore: number | null;
   checkinNote: string;
+  checkinGoals: GoalOption[];
+  goalScores: Record<string, number>;
   onScoreChange: (score: number) => void;
+  onGoalScoreChange: (goalId: string, score: number) => void;
   onNoteChange: (text: string) => void;
   onSaveCheckin: () => void;
+  isCheckinFocused: boolean;
+  onCheckinLayout: (y: number) => void;
 }
 
 export function HomeScreen({
@@ -21,123 +32,221 @@ export function HomeScreen({
   activeGoals,
   weeklySuccess,
   todayCheckin,
+  todayTasksDone,
+  todayTasksTotal,
   checkinScore,
   checkinNote,
+  checkinGoals,
+  goalScores,
   onScoreChange,
+  onGoalScoreChange,
   onNoteChange,
   onSaveCheckin,
+  isCheckinFocused,
+  onCheckinLayout,
 }: HomeScreenProps) {
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+
   return (
     <>
-      <Text style={styles.appTitle}>Главная</Text>
-      <Text style={styles.appSubtitle}>С возвращением, {userName || 'друг'}</Text>
+      <Text style={styles.appTitle}>{t('home.title')}</Text>
+      <Text style={styles.appSubtitle}>{t('home.welcome', { name: userName || t('home.defaultName') })}</Text>
 
-      <SectionCard title="Сегодня" subtitle="Краткая сводка перед началом дня">
-        <Text style={styles.metric}>Активных целей: {activeGoals}</Text>
-        <Text style={styles.metric}>Чек-ин сегодня: {todayCheckin ? `${todayCheckin.score}/5` : 'нет записи'}</Text>
-        <Text style={styles.helper}>Неделя: {weeklySuccess}% последовательности.</Text>
+      <SectionCard title={t('home.today.title')} subtitle={t('home.today.subtitle')}>
+        <Text style={styles.metric}>{t('home.today.activeGoals', { count: activeGoals })}</Text>
+        <Text style={styles.metric}>
+          {todayCheckin ? t('home.today.checkin', { score: todayCheckin.score }) : t('home.today.noCheckin')}
+        </Text>
+        <Text style={styles.metric}>
+          {todayTasksTotal > 0
+            ? t('home.today.tasks', { done: todayTasksDone, total: todayTasksTotal })
+            : t('home.today.noTasks')}
+        </Text>
+        {todayTasksTotal > 0 ? (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round((todayTasksDone / todayTasksTotal) * 100)}%` }]} />
+          </View>
+        ) : null}
+        <Text style={styles.helper}>{t('home.today.weekly', { percent: weeklySuccess })}</Text>
       </SectionCard>
 
-      <SectionCard title="Ежедневный чек-ин" subtitle="Оцените день и добавьте заметку в одном месте">
-        <View style={styles.scoreRow}>
-          {SCORE_OPTIONS.map((score) => (
-            <Pressable
-              key={score}
-              style={[styles.scoreBtn, checkinScore === score ? styles.scoreBtnActive : null]}
-              onPress={() => onScoreChange(score)}
-            >
-              <Text style={[styles.scoreText, checkinScore === score ? styles.scoreTextActive : null]}>{score}</Text>
-            </Pressable>
+      <View onLayout={(event) => onCheckinLayout(event.nativeEvent.layout.y)}>
+        <SectionCard
+          title={t('home.checkin.title')}
+          subtitle={t('home.checkin.subtitle')}
+          highlighted={isCheckinFocused}
+        >
+          <View style={styles.scoreRow}>
+            {SCORE_OPTIONS.map((score) => (
+              <Pressable
+                key={score}
+                style={[styles.scoreBtn, checkinScore === score ? styles.scoreBtnActive : null]}
+                onPress={() => onScoreChange(score)}
+              >
+                <Text style={[styles.scoreText, checkinScore === score ? styles.scoreTextActive : null]}>{score}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {checkinGoals.length > 0 ? <Text style={styles.sectionLabel}>{t('home.checkin.byGoals')}</Text> : null}
+          {checkinGoals.map((goal) => (
+            <View key={goal.id} style={styles.goalScoreRow}>
+              <Text style={styles.goalScoreTitle}>{goal.title}</Text>
+              <View style={styles.goalScoreOptions}>
+                {SCORE_OPTIONS.map((score) => {
+                  const selected = goalScores[goal.id] === score;
+                  return (
+                    <Pressable
+                      key={score}
+                      style={[styles.goalScoreBtn, selected ? styles.scoreBtnActive : null]}
+                      onPress={() => onGoalScoreChange(goal.id, score)}
+                    >
+                      <Text style={[styles.goalScoreText, selected ? styles.scoreTextActive : null]}>{score}</Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
           ))}
-        </View>
 
-        <TextInput
-          style={[styles.input, styles.noteInput]}
-          placeholder="Короткая заметка по дню"
-          value={checkinNote}
-          onChangeText={onNoteChange}
-          multiline
-        />
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            placeholder={t('home.checkin.notePlaceholder')}
+            value={checkinNote}
+            onChangeText={onNoteChange}
+            multiline
+          />
 
-        <Pressable style={styles.primaryBtn} onPress={onSaveCheckin}>
-          <Text style={styles.primaryBtnText}>{todayCheckin ? 'Обновить чек-ин' : 'Сохранить чек-ин'}</Text>
-        </Pressable>
-      </SectionCard>
+          <Pressable style={styles.primaryBtn} onPress={onSaveCheckin}>
+            <Text style={styles.primaryBtnText}>{todayCheckin ? t('home.checkin.update') : t('home.checkin.save')}</Text>
+          </Pressable>
+        </SectionCard>
+      </View>
     </>
   );
 }
 
-const styles = StyleSheet.create({
-  appTitle: {
-    fontSize: 28,
-    fontWeight: '800',
-    color: '#1c2a52',
-  },
-  appSubtitle: {
-    marginTop: 4,
-    marginBottom: 14,
-    color: '#516285',
-  },
-  helper: {
-    color: '#5b6e99',
-    lineHeight: 20,
-    marginTop: 4,
-  },
-  metric: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#1d2b50',
-    marginBottom: 6,
-  },
-  scoreRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    gap: 8,
-  },
-  scoreBtn: {
-    width: 52,
-    height: 52,
-    borderRadius: 12,
-    backgroundColor: '#fff',
-    alignItems: 'center',
-    justifyContent: 'center',
-    borderWidth: 1,
-    borderColor: '#dbe5ff',
-  },
-  scoreBtnActive: {
-    backgroundColor: '#4169e1',
-    borderColor: '#4169e1',
-  },
-  scoreText: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#3553a1',
-  },
-  scoreTextActive: {
-    color: '#fff',
-  },
-  input: {
-    borderWidth: 1,
-    borderColor: '#dbe5ff',
-    borderRadius: 10,
-    paddingHorizontal: 12,
-    paddingVertical: 10,
-    color: '#1d2b50',
-    backgroundColor: '#fff',
-    marginBottom: 8,
-  },
-  noteInput: {
-    minHeight: 80,
-    textAlignVertical: 'top',
-  },
-  primaryBtn: {
-    borderRadius: 12,
-    paddingVertical: 12,
-    alignItems: 'center',
-    backgroundColor: '#4169e1',
-  },
-  primaryBtnText: {
-    color: '#fff',
-    fontWeight: '700',
-  },
-});
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    appTitle: {
+      fontSize: 28,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    appSubtitle: {
+      marginTop: 4,
+      marginBottom: 14,
+      color: colors.textMuted,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    metric: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 6,
+    },
+    progressTrack: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.surfaceAccent,
+      overflow: 'hidden',
+      marginBottom: 6,
+    },
+    progressFill: {
+      height: '100%',
+      borderRadius: 4,
+      backgroundColor: colors.accent,
+    },
+    scoreRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    scoreBtn: {
+      width: 52,
+      height: 52,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    scoreBtnActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    scoreText: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.accentText,
+    },
+    scoreTextActive: {
+      color: colors.onAccent,
+    },
+    sectionLabel: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+      marginTop: 4,
+    },
+    goalScoreRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    goalScoreTitle: {
+      flex: 1,
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    goalScoreOptions: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    goalScoreBtn: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    goalScoreText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.accentText,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+      marginBottom: 8,
+    },
+    noteInput: {
+      minHeight: 80,
+      textAlignVertical: 'top',
+    },
+    primaryBtn: {
+      borderRadius: 12,
+      paddingVertical: 12,
+      alignItems: 'center',
+      backgroundColor: colors.accent,
+    },
+    primaryBtnText: {
+      color: colors.onAccent,
+      fontWeight: '700',
+    },
+  });
+}
@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SectionCard } from '../components/SectionCard';
+import {
+  getNotificationLog,
+  getScheduledNotifications,
+  notificationActionLabel,
+  ScheduledNotificationInfo,
+  sendTestNotification,
+} from '../hooks/useNotifications';
+import { I18n, MessageKey, Translate } from '../i18n';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { selectAllTasks } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { NotificationLogEntry, NotificationSource } from '../types';
+import { Clock } from '../utils/clock';
+import { displayDateTime } from '../utils/date';
+
+const LOG_ROWS_LIMIT = 50;
+
+interface NotificationDiagnosticsScreenProps {
+  clock: Clock;
+}
+
+const SOURCE_LABELS: Record<NotificationSource, MessageKey> = {
+  goal: 'diagnostics.source.goal',
+  task: 'diagnostics.source.task',
+  snooze: 'diagnostics.source.snooze',
+  checkin: 'diagnostics.source.checkin',
+  test: 'diagnostics.source.test',
+};
+
+function sourceLabel(
+  source: NotificationSource | undefined,
+  taskId: string | undefined,
+  taskTitles: Map<string, string>,
+  t: Translate,
+): string {
+  const label = t(source ? SOURCE_LABELS[source] : 'diagnostics.source.none');
+  if (!taskId) {
+    return label;
+  }
+
+  return t('diagnostics.source.withTask', { label, task: taskTitles.get(taskId) ?? t('diagnostics.deletedTask') });
+}
+
+function logStatus(entry: NotificationLogEntry, { locale, t }: I18n, clock: Clock): string {
+  if (entry.suppressedAt) {
+    return t('diagnostics.suppressed');
+  }
+  if (entry.action) {
+    return entry.respondedAt
+      ? `${notificationActionLabel(entry.action, t)} · ${displayDateTime(entry.respondedAt, locale, clock)}`
+      : notificationActionLabel(entry.action, t);
+  }
+
+  return t('diagnostics.noResponse');
+}
+
+export function NotificationDiagnosticsScreen({ clock }: NotificationDiagnosticsScreenProps) {
+  const [state] = useAppStore();
+  const i18n = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const { locale, t } = i18n;
+  const [scheduled, setScheduled] = useState<ScheduledNotificationInfo[] | null>(null);
+  const [log, setLog] = useState<NotificationLogEntry[] | null>(null);
+  const [refresh, setRefresh] = useState(0);
+  const taskTitles = useMemo(
+    () => new Map(selectAllTasks({ sectionTasks: state.sectionTasks }).map((task) => [task.id, task.title])),
+    [state.sectionTasks],
+  );
+  const deliveries = (log ?? [])
+    .filter((entry) => entry.deliveredAt || entry.suppressedAt)
+    .reverse()
+    .slice(0, LOG_ROWS_LIMIT);
+
+  useEffect(() => {
+    let cancelled = false;
+    void Promise.all([getScheduledNotifications(), getNotificationLog()]).then(([nextScheduled, nextLog]) => {
+      if (!cancelled) {
+        setScheduled(nextScheduled);
+        setLog(nextLog);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [refresh]);
+
+  const sendTest = async () => {
+    try {
+      const sent = await sendTestNotification(t);
+      if (!sent) {
+        Alert.alert(t('alerts.notificationsDenied.title'), t('alerts.notificationsDenied.message'));
+        return;
+      }
+      setRefresh((value) => value + 1);
+    } catch {
+      Alert.alert(t('alerts.sendFailed'), t('alerts.tryLater'));
+    }
+  };
+
+  return (
+    <>
+      <Text style={styles.appTitle}>{t('diagnostics.title')}</Text>
+      <Text style={styles.appSubtitle}>{t('diagnostics.subtitle')}</Text>
+
+      <SectionCard title={t('diagnostics.check.title')}>
+        <Pressable style={styles.menuBtn} onPress={() => void sendTest()}>
+          <Text style={styles.menuBtnText}>{t('diagnostics.check.sendTest')}</Text>
+        </Pressable>
+        <Pressable style={styles.menuBtn} onPress={() => setRefresh((value) => value + 1)}>
+          <Text style={styles.menuBtnText}>{t('diagnostics.check.refresh')}</Text>
+        </Pressable>
+        <Text style={styles.helper}>{t('diagnostics.check.hint')}</Text>
+      </SectionCard>
+
+      <SectionCard
+        title={scheduled ? t('diagnostics.scheduled.titleCount', { count: scheduled.length }) : t('diagnostics.scheduled.title')}
+        subtitle={t('diagnostics.scheduled.subtitle')}
+      >
+        {!scheduled ? <Text style={styles.helper}>{t('common.loading')}</Text> : null}
+        {scheduled && scheduled.length === 0 ? (
+          <Text style={styles.helper}>{t('diagnostics.scheduled.empty')}</Text>
+        ) : null}
+        {scheduled?.map((item) => (
+          <View key={item.id} style={styles.entry}>
+            <View style={styles.row}>
+              <Text style={styles.entryTitle}>{sourceLabel(item.source, item.taskId, taskTitles, t)}</Text>
+              <Text style={styles.entryTime}>
+                {item.fireAt ? displayDateTime(item.fireAt, locale, clock) : t('diagnostics.scheduled.unknownTime')}
+              </Text>
+            </View>
+            <Text style={styles.entryText}>{item.body || item.title}</Text>
+            <Text style={styles.entryMeta}>
+              {t('diagnostics.scheduled.trigger', { type: item.triggerType, id: item.id })}
+            </Text>
+          </View>
+        ))}
+      </SectionCard>
+
+      <SectionCard
+        title={t('diagnostics.log.title')}
+        subtitle={t('diagnostics.log.subtitle', { count: LOG_ROWS_LIMIT })}
+      >
+        {!log ? <Text style={styles.helper}>{t('common.loading')}</Text> : null}
+        {log && deliveries.length === 0 ? <Text style={styles.helper}>{t('diagnostics.log.empty')}</Text> : null}
+        {deliveries.map((entry) => (
+          <View key={`${entry.id}:${entry.scheduledAt}`} style={styles.entry}>
+            <View style={styles.row}>
+              <Text style={styles.entryTitle}>{sourceLabel(entry.source, entry.taskId, taskTitles, t)}</Text>
+              <Text style={styles.entryTime}>
+                {displayDateTime(entry.deliveredAt ?? entry.suppressedAt ?? entry.scheduledAt, locale, clock)}
+              </Text>
+            </View>
+            <Text style={[styles.entryText, entry.action ? styles.entryResponded : null]}>{logStatus(entry, i18n, clock)}</Text>
+          </View>
+        ))}
+        <Text style={styles.helper}>{t('diagnostics.log.hint')}</Text>
+      </SectionCard>
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    appTitle: {
+      fontSize: 28,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    appSubtitle: {
+      marginTop: 4,
+      marginBottom: 14,
+      color: colors.textMuted,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    menuBtn: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingVertical: 12,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surface,
+    },
+    menuBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    entry: {
+      gap: 2,
+      paddingVertical: 6,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.divider,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    entryTitle: {
+      flex: 1,
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    entryTime: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    entryText: {
+      color: colors.textMuted,
+    },
+    entryResponded: {
+      color: colors.successText,
+      fontWeight: '600',
+    },
+    entryMeta: {
+      color: colors.textSubtle,
+      fontSize: 12,
+    },
+  });
+}
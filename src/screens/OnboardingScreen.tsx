@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { SectionCard } from '../components/SectionCard';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { selectActiveGoals } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { GoalTemplate } from '../types';
+import { Clock } from '../utils/clock';
+import { hourLabel } from '../utils/date';
+import { PreferencesScreen } from './PreferencesScreen';
+import { ReminderTimingScreen } from './ReminderTimingScreen';
+
+const ONBOARDING_STEPS = 3;
+
+interface OnboardingScreenProps {
+  goalCategories: GoalTemplate[];
+  today: string;
+  clock: Clock;
+  deviceTimeZone: string;
+  onFinish: () => void;
+}
+
+export function OnboardingScreen({ onFinish, ...preferences }: OnboardingScreenProps) {
+  const [state, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [step, setStep] = useState(1);
+  const [isTimingOpen, setIsTimingOpen] = useState(false);
+  const { profile, reminderSettings } = state;
+
+  const finish = () => {
+    if (!profile.name.trim()) {
+      Alert.alert(t('alerts.nameRequired.title'), t('alerts.nameRequired.message'));
+      return;
+    }
+
+    if (!state.goals.length) {
+      Alert.alert(t('alerts.goalRequired.title'), t('alerts.goalRequired.message'));
+      return;
+    }
+
+    dispatch({ type: 'completeOnboarding' });
+    onFinish();
+  };
+
+  if (isTimingOpen) {
+    return (
+      <>
+        <ReminderTimingScreen clock={preferences.clock} />
+        <View style={styles.actions}>
+          <Pressable style={styles.secondaryBtn} onPress={() => setIsTimingOpen(false)}>
+            <Text style={styles.secondaryBtnText}>{t('common.back')}</Text>
+          </Pressable>
+        </View>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Text style={styles.appTitle}>{t('onboarding.title')}</Text>
+      <Text style={styles.appSubtitle}>{t('onboarding.subtitle')}</Text>
+
+      <SectionCard title={t('onboarding.step', { step, total: ONBOARDING_STEPS })}>
+        {step === 1 ? (
+          <>
+            <Text style={styles.label}>{t('onboarding.nameLabel')}</Text>
+            <TextInput
+              style={styles.input}
+              value={profile.name}
+              onChangeText={(name) => dispatch({ type: 'setProfileName', name })}
+              placeholder={t('onboarding.namePlaceholder')}
+            />
+          </>
+        ) : null}
+
+        {step === 2 ? (
+          <PreferencesScreen {...preferences} onOpenReminderTiming={() => setIsTimingOpen(true)} />
+        ) : null}
+
+        {step === 3 ? (
+          <>
+            <Text style={styles.helper}>
+              {t('onboarding.almostDone', { name: profile.name || t('home.defaultName') })}
+            </Text>
+            <Text style={styles.helper}>
+              {t('onboarding.goals', { count: selectActiveGoals({ goals: state.goals }).length })}
+            </Text>
+            <Text style={styles.helper}>
+              {t(reminderSettings.enabled ? 'onboarding.remindersOn' : 'onboarding.remindersOff', {
+                times: t('common.times', { count: reminderSettings.timesPerDay }),
+              })}
+            </Text>
+            <Text style={styles.helper}>
+              {t('onboarding.window', {
+                start: hourLabel(reminderSettings.startHour),
+                end: hourLabel(reminderSettings.endHour),
+              })}
+            </Text>
+          </>
+        ) : null}
+      </SectionCard>
+
+      <View style={styles.actions}>
+        <Pressable
+          style={[styles.secondaryBtn, step === 1 ? styles.disabledBtn : null]}
+          disabled={step === 1}
+          onPress={() => setStep((prev) => Math.max(1, prev - 1))}
+        >
+          <Text style={styles.secondaryBtnText}>{t('common.back')}</Text>
+        </Pressable>
+        {step < ONBOARDING_STEPS ? (
+          <Pressable style={styles.primaryBtn} onPress={() => setStep((prev) => Math.min(ONBOARDING_STEPS, prev + 1))}>
+            <Text style={styles.primaryBtnText}>{t('common.next')}</Text>
+          </Pressable>
+        ) : (
+          <Pressable style={styles.primaryBtn} onPress={finish}>
+            <Text style={styles.primaryBtnText}>{t('common.finish')}</Text>
+          </Pressable>
+        )}
+      </View>
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    appTitle: {
+      fontSize: 28,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    appSubtitle: {
+      marginTop: 4,
+      marginBottom: 14,
+      color: colors.textMuted,
+    },
+    label: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+      marginBottom: 8,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    actions: {
+      marginTop: 8,
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    secondaryBtn: {
+      flex: 1,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      paddingVertical: 12,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+    },
+    secondaryBtnText: {
+      color: colors.textSecondary,
+      fontWeight: '700',
+    },
+    primaryBtn: {
+      borderRadius: 12,
+      paddingVertical: 12,
+      alignItems: 'center',
+      backgroundColor: colors.accent,
+    },
+    primaryBtnText: {
+      color: colors.onAccent,
+      fontWeight: '700',
+    },
+    disabledBtn: {
+      opacity: 0.5,
+    },
+  });
+}
@@ -0,0 +1,411 @@
+import { useMemo, useState } from 'react';
+import { Alert, Pressable, StyleSheet, Switch, Text, TextInput, View } from 'react-native';
+import { CounterRow } from '../components/CounterRow';
+import { GoalCard } from '../components/GoalCard';
+import { GoalCategoryModal } from '../components/GoalCategoryModal';
+import { SectionCard } from '../components/SectionCard';
+import { WeekdayPicker } from '../components/WeekdayPicker';
+import { BUNDLED_PACKS } from '../constants/packs';
+import { Translate } from '../i18n';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { selectActiveGoals } from '../store/selectors';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { GoalCategory, GoalTemplate, TemplatePack } from '../types';
+import { Clock } from '../utils/clock';
+import { displayDate, hourLabel, shiftDateKey } from '../utils/date';
+import { pickTextFile } from '../utils/files';
+import { findGoalCategory, isBuiltInGoalCategory } from '../utils/goals';
+import { parseTemplatePack } from '../utils/templatePacks';
+
+const CHECKIN_TIME_STEP_MINUTES = 15;
+const MIN_GAP_STEP_MINUTES = 15;
+const VACATION_DEFAULT_DAYS = 7;
+
+interface PreferencesScreenProps {
+  goalCategories: GoalTemplate[];
+  today: string;
+  clock: Clock;
+  deviceTimeZone: string;
+  onOpenReminderTiming: () => void;
+}
+
+function packSummary(pack: TemplatePack, t: Translate): string {
+  const suggestions = Object.values(pack.taskSuggestions).reduce((sum, items) => sum + items.length, 0);
+  return t('packs.summary', {
+    goals: pack.goals.length,
+    blocks: pack.blocks.length,
+    suggestions,
+    reminders: pack.reminders.length,
+  });
+}
+
+export function PreferencesScreen({
+  goalCategories,
+  today,
+  clock,
+  deviceTimeZone,
+  onOpenReminderTiming,
+}: PreferencesScreenProps) {
+  const [state, dispatch] = useAppStore();
+  const { locale, t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [editingCategory, setEditingCategory] = useState<GoalTemplate | null>(null);
+  const [isCategoryModalVisible, setIsCategoryModalVisible] = useState(false);
+  const activeGoals = selectActiveGoals({ goals: state.goals }).length;
+  const availableBundledPacks = useMemo(
+    () => BUNDLED_PACKS[locale].filter((pack) => !state.templatePacks.some((item) => item.pack.id === pack.id)),
+    [locale, state.templatePacks],
+  );
+  const { reminderSettings, checkinSettings, reminderPause, timeSettings } = state;
+
+  const toggleGoal = (category: GoalCategory) => {
+    dispatch({
+      type: 'toggleGoal',
+      category,
+      goalId: `${category}-${Date.now()}`,
+      customAction: findGoalCategory(goalCategories, category)?.description || t('goals.defaultAction'),
+    });
+  };
+
+  const openCategoryEditor = (category: GoalTemplate | null) => {
+    setEditingCategory(category);
+    setIsCategoryModalVisible(true);
+  };
+
+  const installTemplatePack = (pack: TemplatePack) => {
+    const installed = state.templatePacks.find((item) => item.pack.id === pack.id);
+    if (installed && installed.pack.version >= pack.version) {
+      Alert.alert(
+        t('alerts.packInstalled.title'),
+        t('alerts.packInstalled.message', { title: installed.pack.title, version: installed.pack.version }),
+      );
+      return;
+    }
+
+    dispatch({ type: 'installTemplatePack', pack });
+    Alert.alert(
+      installed ? t('alerts.packUpdated') : t('alerts.packAdded'),
+      t('alerts.packVersion', { title: pack.title, version: pack.version }),
+    );
+  };
+
+  const importTemplatePack = async () => {
+    let raw: string | null;
+    try {
+      raw = await pickTextFile(['application/json', 'text/plain']);
+    } catch {
+      Alert.alert(t('alerts.fileOpen.title'), t('alerts.fileOpen.message'));
+      return;
+    }
+
+    if (!raw) {
+      return;
+    }
+
+    const pack = parseTemplatePack(raw);
+    if (!pack) {
+      Alert.alert(t('alerts.wrongFile.title'), t('alerts.wrongFile.pack'));
+      return;
+    }
+
+    installTemplatePack(pack);
+  };
+
+  return (
+    <>
+      <SectionCard title={t('settings.goals.title')} subtitle={t('settings.goals.subtitle')}>
+        {goalCategories.map((template) => {
+          const selected = state.goals.find((goal) => goal.category === template.id);
+          return (
+            <View key={template.id}>
+              <GoalCard
+                template={template}
+                selected={selected}
+                onToggle={toggleGoal}
+                onEdit={isBuiltInGoalCategory(template.id) ? undefined : () => openCategoryEditor(template)}
+              />
+              {selected ? (
+                <TextInput
+                  style={styles.input}
+                  value={selected.customAction}
+                  onChangeText={(text) => dispatch({ type: 'updateGoalAction', category: template.id, text })}
+                  placeholder={t('settings.goals.actionPlaceholder')}
+                />
+              ) : null}
+            </View>
+          );
+        })}
+
+        <Pressable style={styles.pillBtn} onPress={() => openCategoryEditor(null)}>
+          <Text style={styles.pillBtnText}>{t('settings.goals.addCategory')}</Text>
+        </Pressable>
+      </SectionCard>
+
+      <SectionCard title={t('settings.packs.title')} subtitle={t('settings.packs.subtitle')}>
+        {state.templatePacks.map(({ pack, enabled }) => (
+          <View key={pack.id} style={styles.packRow}>
+            <View style={styles.rowBetween}>
+              <Text style={styles.label}>
+                {t('settings.packs.version', { title: pack.title, version: pack.version })}
+              </Text>
+              <Switch
+                value={enabled}
+                onValueChange={(value) => dispatch({ type: 'setTemplatePackEnabled', packId: pack.id, enabled: value })}
+              />
+            </View>
+            {pack.description ? <Text style={styles.helper}>{pack.description}</Text> : null}
+            <Text style={styles.helper}>{packSummary(pack, t)}</Text>
+            <Pressable onPress={() => dispatch({ type: 'removeTemplatePack', packId: pack.id })}>
+              <Text style={styles.dangerText}>{t('settings.packs.remove')}</Text>
+            </Pressable>
+          </View>
+        ))}
+
+        {availableBundledPacks.map((pack) => (
+          <Pressable key={pack.id} style={styles.pillBtn} onPress={() => installTemplatePack(pack)}>
+            <Text style={styles.pillBtnText}>{t('settings.packs.install', { title: pack.title })}</Text>
+          </Pressable>
+        ))}
+
+        <Pressable style={styles.pillBtn} onPress={() => void importTemplatePack()}>
+          <Text style={styles.pillBtnText}>{t('settings.packs.import')}</Text>
+        </Pressable>
+        <Text style={styles.helper}>{t('settings.packs.hint')}</Text>
+      </SectionCard>
+
+      <SectionCard title={t('settings.reminders.title')} subtitle={t('settings.reminders.subtitle')}>
+        <View style={styles.rowBetween}>
+          <Text style={styles.label}>{t('common.enableReminders')}</Text>
+          <Switch
+            value={reminderSettings.enabled}
+            onValueChange={(enabled) => dispatch({ type: 'setRemindersEnabled', enabled })}
+          />
+        </View>
+
+        <CounterRow
+          label={t('settings.reminders.perDay')}
+          value={reminderSettings.timesPerDay}
+          onDecrease={() => dispatch({ type: 'changeTimesPerDay', delta: -1 })}
+          onIncrease={() => dispatch({ type: 'changeTimesPerDay', delta: 1 })}
+        />
+        <CounterRow
+          label={t('common.minGap')}
+          value={t('common.minutes', { minutes: reminderSettings.minGapMinutes })}
+          onDecrease={() => dispatch({ type: 'changeReminderMinGap', delta: -MIN_GAP_STEP_MINUTES })}
+          onIncrease={() => dispatch({ type: 'changeReminderMinGap', delta: MIN_GAP_STEP_MINUTES })}
+        />
+        <CounterRow
+          label={t('settings.reminders.windowStart')}
+          value={hourLabel(reminderSettings.startHour)}
+          onDecrease={() => dispatch({ type: 'shiftReminderWindow', field: 'startHour', delta: -1 })}
+          onIncrease={() => dispatch({ type: 'shiftReminderWindow', field: 'startHour', delta: 1 })}
+        />
+        <CounterRow
+          label={t('settings.reminders.windowEnd')}
+          value={hourLabel(reminderSettings.endHour)}
+          onDecrease={() => dispatch({ type: 'shiftReminderWindow', field: 'endHour', delta: -1 })}
+          onIncrease={() => dispatch({ type: 'shiftReminderWindow', field: 'endHour', delta: 1 })}
+        />
+
+        <Text style={styles.helper}>
+          {t('settings.reminders.hint', {
+            goals: activeGoals,
+            start: hourLabel(reminderSettings.startHour),
+            end: hourLabel(reminderSettings.endHour),
+          })}
+        </Text>
+
+        <Pressable style={styles.pillBtn} onPress={onOpenReminderTiming}>
+          <Text style={styles.pillBtnText}>
+            {reminderSettings.adaptive ? t('settings.reminders.adaptiveOn') : t('settings.reminders.adaptiveOff')}
+          </Text>
+        </Pressable>
+      </SectionCard>
+
+      <SectionCard title={t('settings.checkin.title')} subtitle={t('settings.checkin.subtitle')}>
+        <View style={styles.rowBetween}>
+          <Text style={styles.label}>{t('settings.checkin.remind')}</Text>
+          <Switch
+            value={checkinSettings.reminder.enabled}
+            onValueChange={(enabled) => dispatch({ type: 'setCheckinReminderEnabled', enabled })}
+          />
+        </View>
+
+        <CounterRow
+          label={t('common.time')}
+          value={checkinSettings.reminder.time}
+          onDecrease={() => dispatch({ type: 'shiftCheckinReminderTime', minutes: -CHECKIN_TIME_STEP_MINUTES })}
+          onIncrease={() => dispatch({ type: 'shiftCheckinReminderTime', minutes: CHECKIN_TIME_STEP_MINUTES })}
+        />
+        <WeekdayPicker
+          selected={checkinSettings.reminder.weekdays}
+          onToggle={(weekday) => dispatch({ type: 'toggleCheckinReminderWeekday', weekday })}
+        />
+
+        <Text style={styles.helper}>{t('settings.checkin.hint')}</Text>
+      </SectionCard>
+
+      <SectionCard title={t('settings.pause.title')} subtitle={t('settings.pause.subtitle')}>
+        <View style={styles.rowBetween}>
+          <Text style={styles.label}>{t('settings.pause.quietHours')}</Text>
+          <Switch
+            value={reminderPause.quietHours.enabled}
+            onValueChange={(enabled) => dispatch({ type: 'setQuietHoursEnabled', enabled })}
+          />
+        </View>
+
+        {reminderPause.quietHours.enabled ? (
+          <>
+            <CounterRow
+              label={t('common.from')}
+              value={hourLabel(reminderPause.quietHours.startHour)}
+              onDecrease={() => dispatch({ type: 'shiftQuietHours', field: 'startHour', delta: -1 })}
+              onIncrease={() => dispatch({ type: 'shiftQuietHours', field: 'startHour', delta: 1 })}
+            />
+            <CounterRow
+              label={t('common.to')}
+              value={hourLabel(reminderPause.quietHours.endHour)}
+              onDecrease={() => dispatch({ type: 'shiftQuietHours', field: 'endHour', delta: -1 })}
+              onIncrease={() => dispatch({ type: 'shiftQuietHours', field: 'endHour', delta: 1 })}
+            />
+          </>
+        ) : null}
+
+        <Text style={styles.label}>{t('settings.pause.mutedDays')}</Text>
+        <WeekdayPicker
+          selected={reminderPause.mutedWeekdays}
+          onToggle={(weekday) => dispatch({ type: 'toggleMutedWeekday', weekday })}
+        />
+
+        {reminderPause.vacation ? (
+          <>
+            <CounterRow
+              label={t('settings.pause.vacationFrom')}
+              value={displayDate(reminderPause.vacation.startDate, locale)}
+              onDecrease={() => dispatch({ type: 'shiftVacationDate', field: 'startDate', days: -1 })}
+              onIncrease={() => dispatch({ type: 'shiftVacationDate', field: 'startDate', days: 1 })}
+            />
+            <CounterRow
+              label={t('settings.pause.vacationTo')}
+              value={displayDate(reminderPause.vacation.endDate, locale)}
+              onDecrease={() => dispatch({ type: 'shiftVacationDate', field: 'endDate', days: -1 })}
+              onIncrease={() => dispatch({ type: 'shiftVacationDate', field: 'endDate', days: 1 })}
+            />
+
+            <Pressable style={styles.pillBtn} onPress={() => dispatch({ type: 'setVacation', vacation: null })}>
+              <Text style={styles.pillBtnText}>{t('settings.pause.endVacation')}</Text>
+            </Pressable>
+          </>
+        ) : (
+          <Pressable
+            style={styles.pillBtn}
+            onPress={() =>
+              dispatch({
+                type: 'setVacation',
+                vacation: { startDate: today, endDate: shiftDateKey(today, VACATION_DEFAULT_DAYS - 1) },
+              })
+            }
+          >
+            <Text style={styles.pillBtnText}>{t('settings.pause.startVacation')}</Text>
+          </Pressable>
+        )}
+
+        <Text style={styles.helper}>{t('settings.pause.vacationHint')}</Text>
+      </SectionCard>
+
+      <SectionCard title={t('settings.time.title')} subtitle={t('settings.time.subtitle')}>
+        <View style={styles.rowBetween}>
+          <Text style={styles.label}>{t('settings.time.homeZone')}</Text>
+          <Switch
+            value={timeSettings.homeTimeZone !== null}
+            onValueChange={(enabled) =>
+              dispatch({ type: 'setHomeTimeZone', timeZone: enabled ? deviceTimeZone : null })
+            }
+          />
+        </View>
+
+        <Text style={styles.helper}>
+          {timeSettings.homeTimeZone === null
+            ? t('settings.time.deviceZone', { device: deviceTimeZone })
+            : clock.timeZone === deviceTimeZone
+              ? t('settings.time.homeZoneHint', { home: clock.timeZone })
+              : t('settings.time.travelHint', { device: deviceTimeZone, home: clock.timeZone })}
+        </Text>
+
+        <CounterRow
+          label={t('settings.time.dayStart')}
+          value={hourLabel(timeSettings.dayEndHour)}
+          onDecrease={() => dispatch({ type: 'shiftDayEndHour', delta: -1 })}
+          onIncrease={() => dispatch({ type: 'shiftDayEndHour', delta: 1 })}
+        />
+
+        <Text style={styles.helper}>
+          {timeSettings.dayEndHour > 0
+            ? t('settings.time.lateHint', { hour: hourLabel(timeSettings.dayEndHour) })
+            : t('settings.time.midnightHint')}
+        </Text>
+      </SectionCard>
+
+      <GoalCategoryModal
+        visible={isCategoryModalVisible}
+        category={editingCategory}
+        onClose={() => setIsCategoryModalVisible(false)}
+      />
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    rowBetween: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    label: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      color: colors.text,
+      backgroundColor: colors.surface,
+      marginBottom: 8,
+    },
+    pillBtn: {
+      alignSelf: 'flex-start',
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 999,
+      paddingVertical: 7,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surface,
+      marginTop: 4,
+    },
+    pillBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+      fontSize: 13,
+    },
+    packRow: {
+      gap: 4,
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.divider,
+    },
+    dangerText: {
+      color: colors.danger,
+    },
+  });
+}
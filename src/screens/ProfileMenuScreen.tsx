@@ -1,5 +1,10 @@
-import { Pressable, StyleSheet, Text } from 'react-native';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
 import { SectionCard } from '../components/SectionCard';
+import { LANGUAGE_NAMES, LOCALES } from '../i18n';
+import { useI18n } from '../i18n/context';
+import { THEME_MODES, ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import { Locale, ThemeMode } from '../types';
 
 export type ProfileMenuTarget = 'settings' | 'home' | 'history' | 'premium';
 
@@ -7,64 +12,187 @@ interface ProfileMenuScreenProps {
   name: string;
   isPremium: boolean;
   onNavigate: (target: ProfileMenuTarget) => void;
+  trashCount: number;
+  onOpenTrash: () => void;
+  onExportData: () => void;
+  onImportData: () => void;
+  onOpenNotificationDiagnostics: () => void;
+  language: Locale | null;
+  deviceLanguage: Locale;
+  onChangeLanguage: (language: Locale | null) => void;
+  themeMode: ThemeMode;
+  onChangeThemeMode: (mode: ThemeMode) => void;
 }
 
-export function ProfileMenuScreen({ name, isPremium, onNavigate }: ProfileMenuScreenProps) {
+export function ProfileMenuScreen({
+  name,
+  isPremium,
+  onNavigate,
+  trashCount,
+  onOpenTrash,
+  onExportData,
+  onImportData,
+  onOpenNotificationDiagnostics,
+  language,
+  deviceLanguage,
+  onChangeLanguage,
+  themeMode,
+  onChangeThemeMode,
+}: ProfileMenuScreenProps) {
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const languageOptions: { id: Locale | null; label: string }[] = [
+    { id: null, label: t('profile.language.device') },
+    ...LOCALES.map((locale) => ({ id: locale, label: LANGUAGE_NAMES[locale] })),
+  ];
+
   return (
     <>
-      <Text style={styles.appTitle}>Профиль</Text>
-      <Text style={styles.appSubtitle}>Меню приложения и статус аккаунта</Text>
+      <Text style={styles.appTitle}>{t('profile.title')}</Text>
+      <Text style={styles.appSubtitle}>{t('profile.subtitle')}</Text>
 
-      <SectionCard title="Аккаунт">
-        <Text style={styles.metric}>Имя: {name || 'не указано'}</Text>
-        <Text style={styles.metric}>Статус: {isPremium ? 'Premium' : 'Free'}</Text>
+      <SectionCard title={t('profile.account.title')}>
+        <Text style={styles.metric}>{t('profile.account.name', { name: name || t('profile.account.noName') })}</Text>
+        <Text style={styles.metric}>{t('profile.account.status', { status: isPremium ? 'Premium' : 'Free' })}</Text>
       </SectionCard>
 
-      <SectionCard title="Пункты меню">
+      <SectionCard title={t('profile.menu.title')}>
         <Pressable style={styles.menuBtn} onPress={() => onNavigate('settings')}>
-          <Text style={styles.menuBtnText}>Настройки (основной экран)</Text>
+          <Text style={styles.menuBtnText}>{t('profile.menu.settings')}</Text>
         </Pressable>
         <Pressable style={styles.menuBtn} onPress={() => onNavigate('home')}>
-          <Text style={styles.menuBtnText}>Главная</Text>
+          <Text style={styles.menuBtnText}>{t('profile.menu.home')}</Text>
         </Pressable>
         <Pressable style={styles.menuBtn} onPress={() => onNavigate('history')}>
-          <Text style={styles.menuBtnText}>История</Text>
+          <Text style={styles.menuBtnText}>{t('profile.menu.history')}</Text>
         </Pressable>
         <Pressable style={styles.menuBtn} onPress={() => onNavigate('premium')}>
           <Text style={styles.menuBtnText}>Premium</Text>
         </Pressable>
       </SectionCard>
+
+      <SectionCard title={t('profile.data.title')} subtitle={t('profile.data.subtitle')}>
+        <Pressable style={styles.menuBtn} onPress={onExportData}>
+          <Text style={styles.menuBtnText}>{t('profile.data.export')}</Text>
+        </Pressable>
+        <Pressable style={styles.menuBtn} onPress={onImportData}>
+          <Text style={styles.menuBtnText}>{t('profile.data.import')}</Text>
+        </Pressable>
+        <Pressable style={styles.menuBtn} onPress={onOpenTrash}>
+          <Text style={styles.menuBtnText}>
+            {trashCount > 0 ? t('profile.data.trashCount', { count: trashCount }) : t('profile.data.trash')}
+          </Text>
+        </Pressable>
+      </SectionCard>
+
+      <SectionCard title={t('profile.notifications.title')} subtitle={t('profile.notifications.subtitle')}>
+        <Pressable style={styles.menuBtn} onPress={onOpenNotificationDiagnostics}>
+          <Text style={styles.menuBtnText}>{t('profile.notifications.diagnostics')}</Text>
+        </Pressable>
+      </SectionCard>
+
+      <SectionCard title={t('profile.language.title')} subtitle={t('profile.language.subtitle')}>
+        <View style={styles.chipRow}>
+          {languageOptions.map((option) => {
+            const selected = option.id === language;
+            return (
+              <Pressable
+                key={option.id ?? 'device'}
+                style={[styles.chip, selected ? styles.chipActive : null]}
+                onPress={() => onChangeLanguage(option.id)}
+              >
+                <Text style={[styles.chipText, selected ? styles.chipTextActive : null]}>{option.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {language === null ? (
+          <Text style={styles.helper}>
+            {t('profile.language.deviceHint', { language: LANGUAGE_NAMES[deviceLanguage] })}
+          </Text>
+        ) : null}
+      </SectionCard>
+
+      <SectionCard title={t('profile.theme.title')} subtitle={t('profile.theme.subtitle')}>
+        <View style={styles.chipRow}>
+          {THEME_MODES.map((mode) => {
+            const selected = mode === themeMode;
+            return (
+              <Pressable
+                key={mode}
+                style={[styles.chip, selected ? styles.chipActive : null]}
+                onPress={() => onChangeThemeMode(mode)}
+              >
+                <Text style={[styles.chipText, selected ? styles.chipTextActive : null]}>
+                  {t(`profile.theme.${mode}`)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </SectionCard>
     </>
   );
 }
 
-const styles = StyleSheet.create({
-  appTitle: {
-    fontSize: 28,
-    fontWeight: '800',
-    color: '#1c2a52',
-  },
-  appSubtitle: {
-    marginTop: 4,
-    marginBottom: 14,
-    color: '#516285',
-  },
-  metric: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: '#1d2b50',
-    marginBottom: 6,
-  },
-  menuBtn: {
-    borderWidth: 1,
-    borderColor: '#d7e2ff',
-    borderRadius: 12,
-    paddingVertical: 12,
-    paddingHorizontal: 12,
-    backgroundColor: '#fff',
-  },
-  menuBtnText: {
-    color: '#3553a1',
-    fontWeight: '700',
-  },
-});
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    appTitle: {
+      fontSize: 28,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    appSubtitle: {
+      marginTop: 4,
+      marginBottom: 14,
+      color: colors.textMuted,
+    },
+    metric: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 6,
+    },
+    menuBtn: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      paddingVertical: 12,
+      paddingHorizontal: 12,
+      backgroundColor: colors.surface,
+    },
+    menuBtnText: {
+      color: colors.accentText,
+      fontWeight: '700',
+    },
+    chipRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    chip: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.borderStrong,
+      borderRadius: 10,
+      paddingVertical: 10,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+      borderColor: colors.accent,
+    },
+    chipText: {
+      color: colors.accentText,
+      fontWeight: '600',
+      fontSize: 12,
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+    },
+  });
+}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Switch, Text, View } from 'react-native';
+import { SectionCard } from '../components/SectionCard';
+import { getNotificationLog } from '../hooks/useNotifications';
+import { MessageKey, Translate } from '../i18n';
+import { useI18n } from '../i18n/context';
+import { useAppStore } from '../store';
+import { ThemeColors } from '../theme';
+import { useThemedStyles } from '../theme/context';
+import {
+  ADAPTIVE_WINDOW_DAYS,
+  AdaptiveTimingReport,
+  buildAdaptiveTimingReport,
+  HourResponseStat,
+  MIN_DELIVERIES_FOR_ADAPTATION,
+} from '../utils/adaptiveTiming';
+import { Clock } from '../utils/clock';
+
+const SHIFT_THRESHOLD = 0.15;
+
+interface ReminderTimingScreenProps {
+  clock: Clock;
+}
+
+function hourRange(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00–${String(hour + 1).padStart(2, '0')}:00`;
+}
+
+function shiftLabel(row: HourResponseStat, uniformShare: number): MessageKey {
+  if (row.share > uniformShare * (1 + SHIFT_THRESHOLD)) {
+    return 'timing.shift.more';
+  }
+  if (row.share < uniformShare * (1 - SHIFT_THRESHOLD)) {
+    return 'timing.shift.less';
+  }
+  return 'timing.shift.same';
+}
+
+function statusText(report: AdaptiveTimingReport, adaptive: boolean, t: Translate): string {
+  if (!adaptive) {
+    return t('timing.status.off');
+  }
+
+  const period = t('common.days', { count: ADAPTIVE_WINDOW_DAYS });
+  if (!report.isActive) {
+    return t('timing.status.collecting', { delivered: report.delivered, required: MIN_DELIVERIES_FOR_ADAPTATION, period });
+  }
+  return t('timing.status.active', { period, delivered: report.delivered, responded: report.responded });
+}
+
+export function ReminderTimingScreen({ clock }: ReminderTimingScreenProps) {
+  const [state, dispatch] = useAppStore();
+  const { t } = useI18n();
+  const styles = useThemedStyles(createStyles);
+  const [report, setReport] = useState<AdaptiveTimingReport | null>(null);
+  const adaptive = state.reminderSettings.adaptive;
+  const uniformShare = report && report.hours.length > 0 ? 1 / report.hours.length : 0;
+  const maxShare = report ? Math.max(...report.hours.map((row) => row.share), 0) : 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    void getNotificationLog().then((log) => {
+      if (!cancelled) {
+        setReport(buildAdaptiveTimingReport(log, state.reminderSettings, clock));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [clock, state.reminderSettings]);
+
+  return (
+    <>
+      <Text style={styles.appTitle}>{t('timing.title')}</Text>
+      <Text style={styles.appSubtitle}>{t('timing.subtitle')}</Text>
+
+      <SectionCard title={t('timing.adaptive.title')}>
+        <View style={styles.row}>
+          <Text style={styles.rowTitle}>{t('timing.adaptive.toggle')}</Text>
+          <Switch value={adaptive} onValueChange={(enabled) => dispatch({ type: 'setAdaptiveReminders', enabled })} />
+        </View>
+        {report ? <Text style={styles.helper}>{statusText(report, adaptive, t)}</Text> : null}
+      </SectionCard>
+
+      <SectionCard title={t('timing.hours.title')} subtitle={t('timing.hours.subtitle')}>
+        {!report ? <Text style={styles.helper}>{t('timing.hours.loading')}</Text> : null}
+        {report?.hours.map((row) => (
+          <View key={row.hour} style={styles.hourRow}>
+            <View style={styles.row}>
+              <Text style={styles.rowTitle}>{hourRange(row.hour)}</Text>
+              <Text style={styles.rowValue}>
+                {row.responded}/{row.delivered}
+              </Text>
+              <Text style={styles.rowShift}>{report.isActive ? t(shiftLabel(row, uniformShare)) : '—'}</Text>
+            </View>
+            <View style={styles.shareTrack}>
+              <View style={[styles.shareFill, { width: `${maxShare > 0 ? Math.round((row.share / maxShare) * 100) : 0}%` }]} />
+            </View>
+          </View>
+        ))}
+        <Text style={styles.helper}>{t('timing.hours.hint')}</Text>
+      </SectionCard>
+    </>
+  );
+}
+
+function createStyles(colors: ThemeColors) {
+  return StyleSheet.create({
+    appTitle: {
+      fontSize: 28,
+      fontWeight: '800',
+      color: colors.text,
+    },
+    appSubtitle: {
+      marginTop: 4,
+      marginBottom: 14,
+      color: colors.textMuted,
+    },
+    helper: {
+      color: colors.textMuted,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 10,
+    },
+    rowTitle: {
+      flex: 1,
+      color: colors.accentText,
+      fontWeight: '600',
+    },
+    rowValue: {
+      color: colors.accentText,
+      fontWeight: '800',
+    },
+    rowShift: {
+      minWidth: 84,
+      textAlign: 'right',
+      color: colors.textMuted,
+      fontWeight: '600',
+    },
+    hourRow: {
+      gap: 4,
+    },
+    shareTrack: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: colors.surfaceAccent,
+      overflow: 'hidden',
+    },
+    shareFill: {
+      height: '100%',
+      borderRadius: 3,
+      backgroundColor: colors.accent,
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { defaultState } from '../../constants/defaultState';
+import { AppState } from '../../types';
+import { createAppStore } from '..';
+
+const stateWithCheckin: AppState = {
+  ...defaultState,
+  checkins: [{ date: '2026-03-01', score: 4, note: '' }],
+};
+
+describe('app store history', () => {
+  it('keeps the undo stack across edits that cannot be undone', () => {
+    const store = createAppStore(stateWithCheckin);
+
+    store.dispatch({ type: 'deleteCheckin', date: '2026-03-01' });
+    store.dispatch({ type: 'setProfileName', name: 'Anna' });
+
+    expect(store.getHistory().past.map((entry) => entry.label)).toEqual(['undo.checkinDeleted']);
+    store.dispatch({ type: 'undo' });
+    expect(store.getState().checkins).toEqual(stateWithCheckin.checkins);
+    expect(store.getState().profile.name).toBe('Anna');
+  });
+
+  it('keeps edits made after the undone change', () => {
+    const store = createAppStore(stateWithCheckin);
+    const deletedAt = '2026-03-02T08:00:00.000Z';
+
+    store.dispatch({ type: 'deleteBlock', blockId: 'habits', trashId: 'trash-1', deletedAt });
+    store.dispatch({ type: 'upsertCheckin', checkin: { date: '2026-03-02', score: 5, note: '' } });
+    store.dispatch({ type: 'toggleTaskCompletion', taskId: 'run', date: '2026-03-02' });
+    store.dispatch({ type: 'undo' });
+
+    const state = store.getState();
+    expect(state.settingsBlocks).toEqual(stateWithCheckin.settingsBlocks);
+    expect(state.trash).toEqual([]);
+    expect(state.checkins.map((checkin) => checkin.date)).toEqual(['2026-03-01', '2026-03-02']);
+    expect(state.taskCompletions).toHaveLength(1);
+  });
+
+  it('drops an entry once a later edit changes the state it would put back', () => {
+    const store = createAppStore(stateWithCheckin);
+
+    store.dispatch({ type: 'deleteCheckin', date: '2026-03-01' });
+    store.dispatch({ type: 'upsertCheckin', checkin: { date: '2026-03-02', score: 5, note: '' } });
+
+    expect(store.getHistory().past).toEqual([]);
+    store.dispatch({ type: 'undo' });
+    expect(store.getState().checkins.map((checkin) => checkin.date)).toEqual(['2026-03-02']);
+  });
+
+  it('drops redo once another edit follows an undo', () => {
+    const store = createAppStore(stateWithCheckin);
+
+    store.dispatch({ type: 'deleteCheckin', date: '2026-03-01' });
+    store.dispatch({ type: 'undo' });
+    store.dispatch({ type: 'setProfileName', name: 'Anna' });
+
+    expect(store.getHistory().future).toEqual([]);
+    expect(store.getHistory().lastChange).toBeNull();
+  });
+
+  it('starts a fresh history after hydrating', () => {
+    const store = createAppStore(stateWithCheckin);
+
+    store.dispatch({ type: 'deleteCheckin', date: '2026-03-01' });
+    store.dispatch({ type: 'hydrate', state: stateWithCheckin });
+
+    expect(store.getHistory().past).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { localizedDefaultState } from '../../constants/defaultState';
+import { translator } from '../../i18n';
+import { appReducer } from '../reducer';
+
+const en = translator('en');
+const titles = {
+  traits: en('blocks.traits'),
+  emotions: en('blocks.emotions'),
+  habits: en('blocks.habits'),
+  values: en('blocks.values'),
+};
+
+describe('localizeBlockTitles', () => {
+  it('moves blocks that keep a default title to the new language', () => {
+    const state = localizedDefaultState(translator('ru'));
+
+    const next = appReducer(state, { type: 'localizeBlockTitles', titles });
+
+    expect(next.settingsBlocks.map((block) => block.title)).toEqual([
+      'Character traits',
+      'Emotions',
+      'Habits',
+      'Values and beliefs',
+    ]);
+  });
+
+  it('keeps titles the user renamed', () => {
+    const state = localizedDefaultState(translator('ru'));
+    const renamed = {
+      ...state,
+      settingsBlocks: state.settingsBlocks.map((block) =>
+        block.kind === 'habits' ? { ...block, title: 'Рутина' } : block,
+      ),
+    };
+
+    const next = appReducer(renamed, { type: 'localizeBlockTitles', titles });
+
+    expect(next.settingsBlocks.find((block) => block.kind === 'habits')?.title).toBe('Рутина');
+  });
+
+  it('returns the same state when every title is already current', () => {
+    const state = localizedDefaultState(en);
+
+    expect(appReducer(state, { type: 'localizeBlockTitles', titles })).toBe(state);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  AppState,
+  BlockTask,
+  DailyCheckin,
+  GoalCategory,
+  GoalTemplate,
+  Locale,
+  TemplateBlockKind,
+  TemplatePack,
+  ThemeMode,
+  Vacation,
+  WeekdayKey,
+} from '../types';
+import { ImportMode } from '../utils/backup';
+
+export type AppAction =
+  | { type: 'hydrate'; state: AppState }
+  | { type: 'importState'; state: AppState; mode: ImportMode }
+  | { type: 'toggleGoal'; category: GoalCategory; goalId: string; customAction: string }
+  | { type: 'updateGoalAction'; category: GoalCategory; text: string }
+  | { type: 'addGoalCategory'; category: GoalTemplate }
+  | { type: 'updateGoalCategory'; category: GoalTemplate }
+  | { type: 'deleteGoalCategory'; categoryId: GoalCategory }
+  | { type: 'installTemplatePack'; pack: TemplatePack }
+  | { type: 'setTemplatePackEnabled'; packId: string; enabled: boolean }
+  | { type: 'removeTemplatePack'; packId: string }
+  | { type: 'addPackBlock'; blockId: string; packId: string; kind: string }
+  | { type: 'setRemindersEnabled'; enabled: boolean }
+  | { type: 'changeTimesPerDay'; delta: number }
+  | { type: 'shiftReminderWindow'; field: 'startHour' | 'endHour'; delta: number }
+  | { type: 'changeReminderMinGap'; delta: number }
+  | { type: 'setAdaptiveReminders'; enabled: boolean }
+  | { type: 'setQuietHoursEnabled'; enabled: boolean }
+  | { type: 'shiftQuietHours'; field: 'startHour' | 'endHour'; delta: number }
+  | { type: 'toggleMutedWeekday'; weekday: WeekdayKey }
+  | { type: 'setVacation'; vacation: Vacation | null }
+  | { type: 'shiftVacationDate'; field: 'startDate' | 'endDate'; days: number }
+  | { type: 'setHomeTimeZone'; timeZone: string | null }
+  | { type: 'shiftDayEndHour'; delta: number }
+  | { type: 'upsertCheckin'; checkin: DailyCheckin }
+  | { type: 'deleteCheckin'; date: string }
+  | { type: 'setBackfillDays'; days: number }
+  | { type: 'setCheckinReminderEnabled'; enabled: boolean }
+  | { type: 'shiftCheckinReminderTime'; minutes: number }
+  | { type: 'toggleCheckinReminderWeekday'; weekday: WeekdayKey }
+  | { type: 'toggleTaskCompletion'; taskId: string; date: string }
+  | { type: 'completeTask'; taskId: string; date: string }
+  | { type: 'skipTask'; taskId: string; date: string }
+  | { type: 'reorderBlocks'; blockIds: string[] }
+  | { type: 'renameBlock'; blockId: string; title: string }
+  | { type: 'deleteBlock'; blockId: string; trashId: string; deletedAt: string }
+  | { type: 'addTemplateBlock'; kind: TemplateBlockKind; title: string }
+  | { type: 'localizeBlockTitles'; titles: Record<TemplateBlockKind, string> }
+  | { type: 'addCustomBlock'; blockId: string; title: string }
+  | { type: 'addTask'; blockId: string; task: BlockTask }
+  | { type: 'updateTask'; blockId: string; task: BlockTask }
+  | { type: 'reorderTasks'; blockId: string; taskIds: string[] }
+  | { type: 'moveTask'; fromBlockId: string; toBlockId: string; taskId: string }
+  | { type: 'duplicateTask'; blockId: string; taskId: string; newTaskId: string; title: string }
+  | { type: 'archiveTask'; blockId: string; taskId: string; archivedAt: string }
+  | { type: 'unarchiveTask'; blockId: string; taskId: string }
+  | { type: 'deleteTask'; blockId: string; taskId: string; trashId: string; deletedAt: string }
+  | { type: 'restoreTrashItem'; trashId: string }
+  | { type: 'deleteTrashItem'; trashId: string }
+  | { type: 'emptyTrash' }
+  | { type: 'purgeTrash'; now: Date }
+  | { type: 'setProfileName'; name: string }
+  | { type: 'completeOnboarding' }
+  | { type: 'setLanguage'; language: Locale | null }
+  | { type: 'setThemeMode'; mode: ThemeMode }
+  | { type: 'togglePremium' };
+
+export type HistoryAction = { type: 'undo' } | { type: 'redo' };
+
+export type StoreAction = AppAction | HistoryAction;
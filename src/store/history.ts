@@ -0,0 +1,111 @@
+import { MessageKey } from '../i18n';
+import { AppState } from '../types';
+import { AppAction } from './actions';
+
+export const HISTORY_LIMIT = 20;
+
+export interface HistoryEntry {
+  label: MessageKey;
+  patch: Partial<AppState>;
+}
+
+export interface HistoryChange {
+  kind: 'record' | 'undo' | 'redo';
+  label: MessageKey;
+}
+
+export interface AppHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  lastChange: HistoryChange | null;
+}
+
+export const emptyHistory: AppHistory = { past: [], future: [], lastChange: null };
+
+export function historyLabel(action: AppAction, state: AppState): MessageKey | null {
+  switch (action.type) {
+    case 'toggleGoal':
+      return state.goals.some((goal) => goal.category === action.category) ? 'undo.goalRemoved' : null;
+    case 'deleteGoalCategory':
+      return 'undo.goalCategoryDeleted';
+    case 'removeTemplatePack':
+      return 'undo.templatePackRemoved';
+    case 'reorderBlocks':
+      return 'undo.blocksReordered';
+    case 'deleteBlock':
+      return 'undo.blockDeleted';
+    case 'archiveTask':
+      return 'undo.taskArchived';
+    case 'deleteTask':
+      return 'undo.taskDeleted';
+    case 'deleteCheckin':
+      return 'undo.checkinDeleted';
+    case 'deleteTrashItem':
+      return 'undo.trashItemDeleted';
+    case 'emptyTrash':
+      return 'undo.trashEmptied';
+    case 'importState':
+      return 'undo.dataImported';
+    default:
+      return null;
+  }
+}
+
+function changedKeys(previous: AppState, next: AppState): (keyof AppState)[] {
+  return (Object.keys(next) as (keyof AppState)[]).filter((key) => previous[key] !== next[key]);
+}
+
+function pickState(state: AppState, keys: (keyof AppState)[]): Partial<AppState> {
+  return Object.fromEntries(keys.map((key) => [key, state[key]])) as Partial<AppState>;
+}
+
+export function recordHistory(history: AppHistory, action: AppAction, previous: AppState, next: AppState): AppHistory {
+  if (action.type === 'hydrate') {
+    return emptyHistory;
+  }
+  if (action.type === 'localizeBlockTitles') {
+    // Titles follow the app language rather than the user, so undo and redo both survive it.
+    return history;
+  }
+
+  const keys = changedKeys(previous, next);
+  const label = historyLabel(action, previous);
+  if (!label) {
+    // Undo only puts back the slices an entry recorded, so entries survive edits elsewhere. An edit to a
+    // recorded slice would be erased by that undo, so the entry and everything older than it is dropped.
+    const overlap = history.past.findLastIndex((entry) => keys.some((key) => key in entry.patch));
+    if (overlap < 0 && history.future.length === 0) {
+      return history;
+    }
+
+    return { past: history.past.slice(overlap + 1), future: [], lastChange: null };
+  }
+
+  return {
+    past: [...history.past, { label, patch: pickState(previous, keys) }].slice(-HISTORY_LIMIT),
+    future: [],
+    lastChange: { kind: 'record', label },
+  };
+}
+
+export function stepHistory(
+  history: AppHistory,
+  direction: 'undo' | 'redo',
+  current: AppState,
+): { history: AppHistory; state: AppState } | null {
+  const source = direction === 'undo' ? history.past : history.future;
+  const entry = source[source.length - 1];
+  if (!entry) {
+    return null;
+  }
+
+  const reverse = { label: entry.label, patch: pickState(current, Object.keys(entry.patch) as (keyof AppState)[]) };
+  const lastChange = { kind: direction, label: entry.label };
+  return {
+    state: { ...current, ...entry.patch },
+    history:
+      direction === 'undo'
+        ? { past: history.past.slice(0, -1), future: [...history.future, reverse], lastChange }
+        : { past: [...history.past, reverse], future: history.future.slice(0, -1), lastChange },
+  };
+}
@@ -0,0 +1,68 @@
+import { useSyncExternalStore } from 'react';
+import { defaultState } from '../constants/defaultState';
+import { AppState } from '../types';
+import { StoreAction } from './actions';
+import { AppHistory, emptyHistory, recordHistory, stepHistory } from './history';
+import { appReducer } from './reducer';
+
+type Listener = () => void;
+
+export interface AppStore {
+  getState: () => AppState;
+  getHistory: () => AppHistory;
+  dispatch: (action: StoreAction) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+export function createAppStore(initialState: AppState): AppStore {
+  let state = initialState;
+  let history = emptyHistory;
+  const listeners = new Set<Listener>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    getState: () => state,
+    getHistory: () => history,
+    dispatch: (action) => {
+      if (action.type === 'undo' || action.type === 'redo') {
+        const stepped = stepHistory(history, action.type, state);
+        if (!stepped) {
+          return;
+        }
+        state = stepped.state;
+        history = stepped.history;
+        notify();
+        return;
+      }
+
+      const next = appReducer(state, action);
+      if (next === state) {
+        return;
+      }
+      history = recordHistory(history, action, state, next);
+      state = next;
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export const appStore = createAppStore(defaultState);
+
+export function useAppStore(): [AppState, AppStore['dispatch']] {
+  const state = useSyncExternalStore(appStore.subscribe, appStore.getState);
+  return [state, appStore.dispatch];
+}
+
+export function useAppHistory(): AppHistory {
+  return useSyncExternalStore(appStore.subscribe, appStore.getHistory);
+}
+
+export type { AppAction, StoreAction } from './actions';
+export type { AppHistory, HistoryChange } from './history';
@@ -0,0 +1,607 @@
+import { BASE_SETTINGS_BLOCKS, CUSTOM_BLOCK_COLORS, isDefaultBlockTitle } from '../constants/blocks';
+import { AppState, BlockTask } from '../types';
+import { applyImport } from '../utils/backup';
+import { shiftDateKey } from '../utils/date';
+import { allGoalCategories, findGoalCategory, isBuiltInGoalCategory } from '../utils/goals';
+import { clamp } from '../utils/math';
+import { shiftTime } from '../utils/reminders';
+import { packBlockKind } from '../utils/templatePacks';
+import { cloneTaskReminders } from '../utils/taskDraft';
+import { findCompletion, isTaskSkipped } from '../utils/tasks';
+import { canRestoreTrashItem, purgeExpiredTrash } from '../utils/trash';
+import { AppAction } from './actions';
+
+const MAX_BACKFILL_DAYS = 60;
+const MAX_TIMES_PER_DAY = 8;
+const MAX_MIN_GAP_MINUTES = 180;
+const MAX_DAY_END_HOUR = 6;
+
+function mapBlockTask(
+  state: AppState,
+  blockId: string,
+  taskId: string,
+  update: (task: BlockTask) => BlockTask,
+): AppState {
+  return {
+    ...state,
+    sectionTasks: {
+      ...state.sectionTasks,
+      [blockId]: (state.sectionTasks[blockId] ?? []).map((task) => (task.id === taskId ? update(task) : task)),
+    },
+  };
+}
+
+export function appReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case 'hydrate':
+      return action.state;
+
+    case 'importState':
+      return applyImport(state, action.state, action.mode);
+
+    case 'toggleGoal': {
+      const existing = state.goals.find((goal) => goal.category === action.category);
+      return {
+        ...state,
+        goals: existing
+          ? state.goals.filter((goal) => goal.category !== action.category)
+          : [
+              ...state.goals,
+              { id: action.goalId, category: action.category, customAction: action.customAction, isActive: true },
+            ],
+      };
+    }
+
+    case 'updateGoalAction':
+      return {
+        ...state,
+        goals: state.goals.map((goal) =>
+          goal.category === action.category ? { ...goal, customAction: action.text } : goal,
+        ),
+      };
+
+    case 'addGoalCategory':
+      if (findGoalCategory(allGoalCategories(state), action.category.id)) {
+        return state;
+      }
+
+      return { ...state, customGoalCategories: [...state.customGoalCategories, action.category] };
+
+    case 'updateGoalCategory':
+      return {
+        ...state,
+        customGoalCategories: state.customGoalCategories.map((category) =>
+          category.id === action.category.id ? action.category : category,
+        ),
+      };
+
+    case 'deleteGoalCategory':
+      if (isBuiltInGoalCategory(action.categoryId)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        customGoalCategories: state.customGoalCategories.filter((category) => category.id !== action.categoryId),
+        goals: state.goals.filter((goal) => goal.category !== action.categoryId),
+      };
+
+    case 'installTemplatePack': {
+      const existing = state.templatePacks.find((item) => item.pack.id === action.pack.id);
+      return {
+        ...state,
+        templatePacks: existing
+          ? state.templatePacks.map((item) => (item === existing ? { ...item, pack: action.pack } : item))
+          : [...state.templatePacks, { pack: action.pack, enabled: true }],
+      };
+    }
+
+    case 'setTemplatePackEnabled':
+      return {
+        ...state,
+        templatePacks: state.templatePacks.map((item) =>
+          item.pack.id === action.packId ? { ...item, enabled: action.enabled } : item,
+        ),
+      };
+
+    case 'removeTemplatePack': {
+      const removed = state.templatePacks.find((item) => item.pack.id === action.packId);
+      if (!removed) {
+        return state;
+      }
+
+      return {
+        ...state,
+        templatePacks: state.templatePacks.filter((item) => item !== removed),
+        goals: state.goals.filter((goal) => !removed.pack.goals.some((category) => category.id === goal.category)),
+      };
+    }
+
+    case 'addPackBlock': {
+      const template = state.templatePacks
+        .find((item) => item.pack.id === action.packId)
+        ?.pack.blocks.find((block) => block.kind === action.kind);
+      const templateKind = packBlockKind(action.packId, action.kind);
+      if (!template || state.settingsBlocks.some((block) => block.templateKind === templateKind)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        settingsBlocks: [
+          ...state.settingsBlocks,
+          { id: action.blockId, kind: 'custom', title: template.title, color: template.color, templateKind },
+        ],
+        sectionNotes: { ...state.sectionNotes, [action.blockId]: '' },
+      };
+    }
+
+    case 'setRemindersEnabled':
+      return {
+        ...state,
+        reminderSettings: { ...state.reminderSettings, enabled: action.enabled },
+      };
+
+    case 'changeTimesPerDay':
+      return {
+        ...state,
+        reminderSettings: {
+          ...state.reminderSettings,
+          timesPerDay: clamp(state.reminderSettings.timesPerDay + action.delta, 1, MAX_TIMES_PER_DAY),
+        },
+      };
+
+    case 'shiftReminderWindow': {
+      let { startHour, endHour } = state.reminderSettings;
+
+      if (action.field === 'startHour') {
+        startHour = clamp(startHour + action.delta, 0, 22);
+        if (startHour >= endHour) {
+          endHour = clamp(startHour + 1, 1, 23);
+        }
+      } else {
+        endHour = clamp(endHour + action.delta, 1, 23);
+        if (endHour <= startHour) {
+          startHour = clamp(endHour - 1, 0, 22);
+        }
+      }
+
+      return {
+        ...state,
+        reminderSettings: { ...state.reminderSettings, startHour, endHour },
+      };
+    }
+
+    case 'changeReminderMinGap':
+      return {
+        ...state,
+        reminderSettings: {
+          ...state.reminderSettings,
+          minGapMinutes: clamp(state.reminderSettings.minGapMinutes + action.delta, 0, MAX_MIN_GAP_MINUTES),
+        },
+      };
+
+    case 'setAdaptiveReminders':
+      return {
+        ...state,
+        reminderSettings: { ...state.reminderSettings, adaptive: action.enabled },
+      };
+
+    case 'setQuietHoursEnabled':
+      return {
+        ...state,
+        reminderPause: {
+          ...state.reminderPause,
+          quietHours: { ...state.reminderPause.quietHours, enabled: action.enabled },
+        },
+      };
+
+    case 'shiftQuietHours': {
+      const { quietHours } = state.reminderPause;
+      return {
+        ...state,
+        reminderPause: {
+          ...state.reminderPause,
+          quietHours: { ...quietHours, [action.field]: (quietHours[action.field] + action.delta + 24) % 24 },
+        },
+      };
+    }
+
+    case 'toggleMutedWeekday': {
+      const { mutedWeekdays } = state.reminderPause;
+      return {
+        ...state,
+        reminderPause: {
+          ...state.reminderPause,
+          mutedWeekdays: mutedWeekdays.includes(action.weekday)
+            ? mutedWeekdays.filter((day) => day !== action.weekday)
+            : [...mutedWeekdays, action.weekday],
+        },
+      };
+    }
+
+    case 'setVacation':
+      return {
+        ...state,
+        reminderPause: { ...state.reminderPause, vacation: action.vacation },
+      };
+
+    case 'shiftVacationDate': {
+      const { vacation } = state.reminderPause;
+      if (!vacation) {
+        return state;
+      }
+
+      let { startDate, endDate } = vacation;
+      if (action.field === 'startDate') {
+        startDate = shiftDateKey(startDate, action.days);
+        endDate = endDate < startDate ? startDate : endDate;
+      } else {
+        endDate = shiftDateKey(endDate, action.days);
+        startDate = startDate > endDate ? endDate : startDate;
+      }
+
+      return {
+        ...state,
+        reminderPause: { ...state.reminderPause, vacation: { startDate, endDate } },
+      };
+    }
+
+    case 'setHomeTimeZone':
+      return {
+        ...state,
+        timeSettings: { ...state.timeSettings, homeTimeZone: action.timeZone },
+      };
+
+    case 'shiftDayEndHour':
+      return {
+        ...state,
+        timeSettings: {
+          ...state.timeSettings,
+          dayEndHour: clamp(state.timeSettings.dayEndHour + action.delta, 0, MAX_DAY_END_HOUR),
+        },
+      };
+
+    case 'upsertCheckin': {
+      const { checkin } = action;
+      const existing = state.checkins.some((item) => item.date === checkin.date);
+      return {
+        ...state,
+        checkins: existing
+          ? state.checkins.map((item) => (item.date === checkin.date ? checkin : item))
+          : [...state.checkins, checkin],
+      };
+    }
+
+    case 'deleteCheckin':
+      return {
+        ...state,
+        checkins: state.checkins.filter((item) => item.date !== action.date),
+      };
+
+    case 'setBackfillDays':
+      return {
+        ...state,
+        checkinSettings: {
+          ...state.checkinSettings,
+          backfillDays: clamp(action.days, 1, MAX_BACKFILL_DAYS),
+        },
+      };
+
+    case 'setCheckinReminderEnabled':
+      return {
+        ...state,
+        checkinSettings: {
+          ...state.checkinSettings,
+          reminder: { ...state.checkinSettings.reminder, enabled: action.enabled },
+        },
+      };
+
+    case 'shiftCheckinReminderTime':
+      return {
+        ...state,
+        checkinSettings: {
+          ...state.checkinSettings,
+          reminder: {
+            ...state.checkinSettings.reminder,
+            time: shiftTime(state.checkinSettings.reminder.time, action.minutes),
+          },
+        },
+      };
+
+    case 'toggleCheckinReminderWeekday': {
+      const { weekdays } = state.checkinSettings.reminder;
+      return {
+        ...state,
+        checkinSettings: {
+          ...state.checkinSettings,
+          reminder: {
+            ...state.checkinSettings.reminder,
+            weekdays: weekdays.includes(action.weekday)
+              ? weekdays.filter((day) => day !== action.weekday)
+              : [...weekdays, action.weekday],
+          },
+        },
+      };
+    }
+
+    case 'toggleTaskCompletion': {
+      const existing = findCompletion(state.taskCompletions, action.taskId, action.date);
+      if (!existing) {
+        return appReducer(state, { type: 'completeTask', taskId: action.taskId, date: action.date });
+      }
+
+      return {
+        ...state,
+        taskCompletions: state.taskCompletions.filter((item) => item !== existing),
+      };
+    }
+
+    case 'completeTask':
+      if (findCompletion(state.taskCompletions, action.taskId, action.date)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        taskCompletions: [...state.taskCompletions, { taskId: action.taskId, date: action.date, count: 1 }],
+        taskSkips: state.taskSkips.filter((item) => item.taskId !== action.taskId || item.date !== action.date),
+      };
+
+    case 'skipTask':
+      if (
+        findCompletion(state.taskCompletions, action.taskId, action.date) ||
+        isTaskSkipped(state.taskSkips, action.taskId, action.date)
+      ) {
+        return state;
+      }
+
+      return {
+        ...state,
+        taskSkips: [...state.taskSkips, { taskId: action.taskId, date: action.date }],
+      };
+
+    case 'reorderBlocks': {
+      const byId = new Map(state.settingsBlocks.map((block) => [block.id, block]));
+      const ordered = action.blockIds.flatMap((id) => {
+        const block = byId.get(id);
+        return block ? [block] : [];
+      });
+      const rest = state.settingsBlocks.filter((block) => !action.blockIds.includes(block.id));
+      return { ...state, settingsBlocks: [...ordered, ...rest] };
+    }
+
+    case 'renameBlock':
+      return {
+        ...state,
+        settingsBlocks: state.settingsBlocks.map((block) =>
+          block.id === action.blockId ? { ...block, title: action.title } : block,
+        ),
+      };
+
+    case 'deleteBlock': {
+      const block = state.settingsBlocks.find((item) => item.id === action.blockId);
+      if (!block) {
+        return state;
+      }
+
+      const sectionNotes = { ...state.sectionNotes };
+      const sectionTasks = { ...state.sectionTasks };
+      const note = sectionNotes[block.id] ?? '';
+      const tasks = sectionTasks[block.id] ?? [];
+      delete sectionNotes[block.id];
+      delete sectionTasks[block.id];
+
+      return {
+        ...state,
+        settingsBlocks: state.settingsBlocks.filter((item) => item.id !== block.id),
+        sectionNotes,
+        sectionTasks,
+        trash: [
+          ...state.trash,
+          { kind: 'block', id: action.trashId, deletedAt: action.deletedAt, block, note, tasks },
+        ],
+      };
+    }
+
+    case 'addTemplateBlock': {
+      const template = BASE_SETTINGS_BLOCKS.find((item) => item.kind === action.kind);
+      if (!template || state.settingsBlocks.some((block) => block.kind === template.kind)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        settingsBlocks: [
+          ...state.settingsBlocks,
+          { id: template.kind, kind: template.kind, title: action.title, color: template.color },
+        ],
+        sectionNotes: {
+          ...state.sectionNotes,
+          [template.kind]: state.sectionNotes[template.kind] ?? '',
+        },
+      };
+    }
+
+    case 'localizeBlockTitles': {
+      let changed = false;
+      const settingsBlocks = state.settingsBlocks.map((block) => {
+        if (block.kind === 'custom' || block.title === action.titles[block.kind]) {
+          return block;
+        }
+        if (!isDefaultBlockTitle(block.kind, block.title)) {
+          return block;
+        }
+        changed = true;
+        return { ...block, title: action.titles[block.kind] };
+      });
+
+      return changed ? { ...state, settingsBlocks } : state;
+    }
+
+    case 'addCustomBlock': {
+      const customCount = state.settingsBlocks.filter((block) => block.kind === 'custom').length;
+      const color = CUSTOM_BLOCK_COLORS[customCount % CUSTOM_BLOCK_COLORS.length] ?? '#f0f6ff';
+
+      return {
+        ...state,
+        settingsBlocks: [...state.settingsBlocks, { id: action.blockId, kind: 'custom', title: action.title, color }],
+        sectionNotes: { ...state.sectionNotes, [action.blockId]: '' },
+      };
+    }
+
+    case 'addTask':
+      return {
+        ...state,
+        sectionTasks: {
+          ...state.sectionTasks,
+          [action.blockId]: [...(state.sectionTasks[action.blockId] ?? []), action.task],
+        },
+      };
+
+    case 'updateTask':
+      return {
+        ...state,
+        sectionTasks: {
+          ...state.sectionTasks,
+          [action.blockId]: (state.sectionTasks[action.blockId] ?? []).map((task) =>
+            task.id === action.task.id ? action.task : task,
+          ),
+        },
+      };
+
+    case 'reorderTasks': {
+      const tasks = state.sectionTasks[action.blockId] ?? [];
+      const byId = new Map(tasks.map((task) => [task.id, task]));
+      const ordered = action.taskIds.flatMap((id) => {
+        const task = byId.get(id);
+        return task ? [task] : [];
+      });
+      const rest = tasks.filter((task) => !action.taskIds.includes(task.id));
+      return {
+        ...state,
+        sectionTasks: { ...state.sectionTasks, [action.blockId]: [...ordered, ...rest] },
+      };
+    }
+
+    case 'moveTask': {
+      const task = state.sectionTasks[action.fromBlockId]?.find((item) => item.id === action.taskId);
+      if (!task || action.fromBlockId === action.toBlockId) {
+        return state;
+      }
+
+      return {
+        ...state,
+        sectionTasks: {
+          ...state.sectionTasks,
+          [action.fromBlockId]: (state.sectionTasks[action.fromBlockId] ?? []).filter((item) => item.id !== task.id),
+          [action.toBlockId]: [...(state.sectionTasks[action.toBlockId] ?? []), task],
+        },
+      };
+    }
+
+    case 'duplicateTask': {
+      const tasks = state.sectionTasks[action.blockId] ?? [];
+      const index = tasks.findIndex((task) => task.id === action.taskId);
+      const source = tasks[index];
+      if (!source) {
+        return state;
+      }
+
+      const copy: BlockTask = {
+        ...source,
+        id: action.newTaskId,
+        title: action.title,
+        reminders: cloneTaskReminders(source.reminders),
+      };
+      return {
+        ...state,
+        sectionTasks: {
+          ...state.sectionTasks,
+          [action.blockId]: [...tasks.slice(0, index + 1), copy, ...tasks.slice(index + 1)],
+        },
+      };
+    }
+
+    case 'archiveTask':
+      return mapBlockTask(state, action.blockId, action.taskId, (task) => ({ ...task, archivedAt: action.archivedAt }));
+
+    case 'unarchiveTask':
+      return mapBlockTask(state, action.blockId, action.taskId, ({ archivedAt: _archivedAt, ...task }) => task);
+
+    case 'deleteTask': {
+      const task = state.sectionTasks[action.blockId]?.find((item) => item.id === action.taskId);
+      if (!task) {
+        return state;
+      }
+
+      return {
+        ...state,
+        sectionTasks: {
+          ...state.sectionTasks,
+          [action.blockId]: (state.sectionTasks[action.blockId] ?? []).filter((item) => item.id !== task.id),
+        },
+        trash: [
+          ...state.trash,
+          { kind: 'task', id: action.trashId, deletedAt: action.deletedAt, blockId: action.blockId, task },
+        ],
+      };
+    }
+
+    case 'restoreTrashItem': {
+      const item = state.trash.find((entry) => entry.id === action.trashId);
+      if (!item || !canRestoreTrashItem(state, item)) {
+        return state;
+      }
+
+      const trash = state.trash.filter((entry) => entry !== item);
+      if (item.kind === 'task') {
+        return {
+          ...state,
+          sectionTasks: {
+            ...state.sectionTasks,
+            [item.blockId]: [...(state.sectionTasks[item.blockId] ?? []), item.task],
+          },
+          trash,
+        };
+      }
+
+      return {
+        ...state,
+        settingsBlocks: [...state.settingsBlocks, item.block],
+        sectionNotes: { ...state.sectionNotes, [item.block.id]: item.note },
+        sectionTasks: { ...state.sectionTasks, [item.block.id]: item.tasks },
+        trash,
+      };
+    }
+
+    case 'deleteTrashItem':
+      return { ...state, trash: state.trash.filter((item) => item.id !== action.trashId) };
+
+    case 'emptyTrash':
+      return state.trash.length > 0 ? { ...state, trash: [] } : state;
+
+    case 'purgeTrash': {
+      const trash = purgeExpiredTrash(state.trash, action.now);
+      return trash.length === state.trash.length ? state : { ...state, trash };
+    }
+
+    case 'setProfileName':
+      return { ...state, profile: { ...state.profile, name: action.name } };
+
+    case 'completeOnboarding':
+      return { ...state, profile: { ...state.profile, onboardingCompleted: true } };
+
+    case 'setLanguage':
+      return { ...state, profile: { ...state.profile, language: action.language } };
+
+    case 'setThemeMode':
+      return { ...state, profile: { ...state.profile, theme: action.mode } };
+
+    case 'togglePremium':
+      return { ...state, profile: { ...state.profile, isPremium: !state.profile.isPremium } };
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,168 @@
+import { BASE_SETTINGS_BLOCKS } from '../constants/blocks';
+import { AppState, BlockTask, DailyCheckin, GoalTemplate, Locale, UserGoal } from '../types';
+import { lastNDays, shiftDateKey } from '../utils/date';
+import { allGoalCategories, goalTitle } from '../utils/goals';
+import { isVacationDay } from '../utils/reminderPause';
+import { checkinStreak, goalStreak, Streak, SUCCESS_SCORE, taskStreak } from '../utils/streaks';
+import { findCompletion, isTaskScheduledOn, isTaskSkipped } from '../utils/tasks';
+
+export interface GoalOption {
+  id: string;
+  title: string;
+}
+
+export interface GoalAverage extends GoalOption {
+  average: string;
+  count: number;
+}
+
+export interface HistorySummary {
+  records: DailyCheckin[];
+  average: string;
+  strongDays: number;
+  completion: number;
+  vacationDays: number;
+  goalAverages: GoalAverage[];
+}
+
+export interface StreakRow extends GoalOption {
+  streak: Streak;
+}
+
+export interface StreakSummary {
+  checkins: Streak;
+  goals: StreakRow[];
+  tasks: StreakRow[];
+}
+
+function averageOf(values: number[]): string {
+  return values.length > 0 ? (values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(1) : '0.0';
+}
+
+export function selectActiveGoals(state: Pick<AppState, 'goals'>): UserGoal[] {
+  return state.goals.filter((goal) => goal.isActive);
+}
+
+export function selectGoalCategories(
+  state: Pick<AppState, 'goals' | 'customGoalCategories' | 'templatePacks'>,
+  locale: Locale,
+): GoalTemplate[] {
+  return allGoalCategories(state, locale);
+}
+
+export function selectGoalOptions(state: AppState, locale: Locale): GoalOption[] {
+  const categories = selectGoalCategories(state, locale);
+  return selectActiveGoals(state).map((goal) => ({ id: goal.id, title: goalTitle(goal.category, categories) }));
+}
+
+export function selectAllTasks(state: Pick<AppState, 'sectionTasks'>): BlockTask[] {
+  return Object.values(state.sectionTasks).flat();
+}
+
+export function selectActiveTasks(state: Pick<AppState, 'sectionTasks'>): BlockTask[] {
+  return selectAllTasks(state).filter((task) => !task.archivedAt);
+}
+
+export function selectBlockTasks(state: AppState, blockId: string): BlockTask[] {
+  return (state.sectionTasks[blockId] ?? []).filter((task) => !task.archivedAt);
+}
+
+export function selectArchivedBlockTasks(state: AppState, blockId: string): BlockTask[] {
+  return (state.sectionTasks[blockId] ?? []).filter((task) => task.archivedAt);
+}
+
+export function selectCheckin(state: AppState, date: string): DailyCheckin | undefined {
+  return state.checkins.find((item) => item.date === date);
+}
+
+export function selectBackfillFrom(state: AppState, today: string): string {
+  return shiftDateKey(today, -state.checkinSettings.backfillDays);
+}
+
+export function selectMissingTemplateBlocks(state: AppState): typeof BASE_SETTINGS_BLOCKS {
+  return BASE_SETTINGS_BLOCKS.filter((template) => !state.settingsBlocks.some((block) => block.kind === template.kind));
+}
+
+function countedDays(state: AppState, rangeDays: number, today: string): Set<string> {
+  return new Set(lastNDays(rangeDays, today).filter((date) => !isVacationDay(state.reminderPause.vacation, date)));
+}
+
+function percentOf(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
+
+export function selectWeeklySuccess(state: AppState, today: string): number {
+  const week = countedDays(state, 7, today);
+  const successful = state.checkins.filter((item) => week.has(item.date) && item.score >= SUCCESS_SCORE).length;
+  return percentOf(successful, week.size);
+}
+
+export function selectTaskProgress(state: AppState, date: string): { done: number; total: number } {
+  if (isVacationDay(state.reminderPause.vacation, date)) {
+    return { done: 0, total: 0 };
+  }
+
+  const dueTasks = selectActiveTasks(state).filter(
+    (task) => isTaskScheduledOn(task, date) && !isTaskSkipped(state.taskSkips, task.id, date),
+  );
+  const done = dueTasks.filter((task) => findCompletion(state.taskCompletions, task.id, date)).length;
+  return { done, total: dueTasks.length };
+}
+
+export function selectCompletedTaskTitles(state: AppState): Record<string, string[]> {
+  const titles = new Map(selectAllTasks(state).map((task) => [task.id, task.title]));
+  return state.taskCompletions.reduce<Record<string, string[]>>((acc, item) => {
+    const title = titles.get(item.taskId);
+    if (title) {
+      acc[item.date] = [...(acc[item.date] ?? []), title];
+    }
+    return acc;
+  }, {});
+}
+
+export function selectHistorySummary(
+  state: AppState,
+  rangeDays: number,
+  today: string,
+  locale: Locale,
+): HistorySummary {
+  const dates = new Set(lastNDays(rangeDays, today));
+  const records = state.checkins
+    .filter((item) => dates.has(item.date))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const goalAverages = selectGoalOptions(state, locale).map((goal) => {
+    const scores = records.flatMap((item) => {
+      const score = item.goalScores?.[goal.id];
+      return score === undefined ? [] : [score];
+    });
+    return { ...goal, average: averageOf(scores), count: scores.length };
+  });
+  const counted = countedDays(state, rangeDays, today);
+
+  return {
+    records,
+    average: averageOf(records.map((item) => item.score)),
+    strongDays: records.filter((item) => item.score >= SUCCESS_SCORE).length,
+    completion: percentOf(records.filter((item) => counted.has(item.date)).length, counted.size),
+    vacationDays: rangeDays - counted.size,
+    goalAverages,
+  };
+}
+
+export function selectStreaks(state: AppState, today: string, locale: Locale): StreakSummary {
+  const isDayOff = (date: string) => isVacationDay(state.reminderPause.vacation, date);
+  const categories = selectGoalCategories(state, locale);
+  return {
+    checkins: checkinStreak(state.checkins, today, isDayOff),
+    goals: selectActiveGoals(state).map((goal) => ({
+      id: goal.id,
+      title: goalTitle(goal.category, categories),
+      streak: goalStreak(goal, state.checkins, today, isDayOff),
+    })),
+    tasks: selectActiveTasks(state).map((task) => ({
+      id: task.id,
+      title: task.title,
+      streak: taskStreak(task, state.taskCompletions, today, state.taskSkips, isDayOff),
+    })),
+  };
+}
@@ -0,0 +1,13 @@
+import { createContext, useContext, useMemo } from 'react';
+import { createTheme, Theme, ThemeColors } from '.';
+
+export const ThemeContext = createContext<Theme>(createTheme('light'));
+
+export function useTheme(): Theme {
+  return useContext(ThemeContext);
+}
+
+export function useThemedStyles<T>(createStyles: (colors: ThemeColors) => T): T {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [colors, createStyles]);
+}
@@ -0,0 +1,120 @@
+import { ColorSchemeName } from 'react-native';
+import { DARK_BLOCK_COLORS } from '../constants/blocks';
+import { ColorScheme, ThemeMode } from '../types';
+
+export interface ThemeColors {
+  background: string;
+  surface: string;
+  surfaceMuted: string;
+  surfaceAccent: string;
+  border: string;
+  borderStrong: string;
+  divider: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  textSubtle: string;
+  accent: string;
+  accentText: string;
+  onAccent: string;
+  success: string;
+  successText: string;
+  danger: string;
+  warningText: string;
+  warningSurface: string;
+  inverseSurface: string;
+  onInverse: string;
+  inverseAccent: string;
+  overlay: string;
+  shadow: string;
+  scoreScale: string[];
+}
+
+export interface Theme {
+  scheme: ColorScheme;
+  colors: ThemeColors;
+}
+
+export const THEME_MODES: ThemeMode[] = ['system', 'light', 'dark'];
+
+const PALETTES: Record<ColorScheme, ThemeColors> = {
+  light: {
+    background: '#eef3ff',
+    surface: '#fff',
+    surfaceMuted: '#f8fbff',
+    surfaceAccent: '#e3ebff',
+    border: '#dbe5ff',
+    borderStrong: '#c6d6fb',
+    divider: '#e3ebff',
+    text: '#1d2b50',
+    textSecondary: '#2f3e63',
+    textMuted: '#516285',
+    textSubtle: '#8a9bc0',
+    accent: '#4169e1',
+    accentText: '#3553a1',
+    onAccent: '#fff',
+    success: '#2f9e5b',
+    successText: '#1f7a4d',
+    danger: '#b43232',
+    warningText: '#9a5b00',
+    warningSurface: '#fff3dc',
+    inverseSurface: '#1d2b50',
+    onInverse: '#fff',
+    inverseAccent: '#9fb8ff',
+    overlay: 'rgba(20, 31, 62, 0.34)',
+    shadow: '#1a2d5d',
+    scoreScale: ['#f1f4fb', '#f8d4d2', '#fbe3c2', '#e6efc9', '#b7e2c4', '#5dbb85'],
+  },
+  dark: {
+    background: '#0f1524',
+    surface: '#182036',
+    surfaceMuted: '#1c2540',
+    surfaceAccent: '#24304f',
+    border: '#2a3654',
+    borderStrong: '#3a4a70',
+    divider: '#222c47',
+    text: '#e6ecff',
+    textSecondary: '#c5d0ee',
+    textMuted: '#97a6c8',
+    textSubtle: '#6c7ba0',
+    accent: '#6d8ff0',
+    accentText: '#9fb8ff',
+    onAccent: '#fff',
+    success: '#3fb673',
+    successText: '#6fd39b',
+    danger: '#ff8a80',
+    warningText: '#f0b35a',
+    warningSurface: '#3a2e17',
+    inverseSurface: '#e6ecff',
+    onInverse: '#1d2b50',
+    inverseAccent: '#2f5ee5',
+    overlay: 'rgba(0, 0, 0, 0.6)',
+    shadow: '#000',
+    scoreScale: ['#222b42', '#5a2f33', '#5c4526', '#43502c', '#2f5b40', '#2f8a58'],
+  },
+};
+
+export function isThemeMode(value: unknown): value is ThemeMode {
+  return THEME_MODES.includes(value as ThemeMode);
+}
+
+export function resolveScheme(mode: ThemeMode, system: ColorSchemeName): ColorScheme {
+  if (mode !== 'system') {
+    return mode;
+  }
+
+  return system === 'dark' ? 'dark' : 'light';
+}
+
+export function createTheme(scheme: ColorScheme): Theme {
+  return { scheme, colors: PALETTES[scheme] };
+}
+
+// Blocks store their light colour; pack colours without a known dark pair fall back to the muted surface.
+export function blockColor(color: string, { scheme, colors }: Theme): string {
+  if (scheme === 'light') {
+    return color;
+  }
+
+  return DARK_BLOCK_COLORS[color] ?? colors.surfaceMuted;
+}
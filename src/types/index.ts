@@ -1,9 +1,10 @@
-export type GoalCategory = 'calmness' | 'discipline' | 'kindness' | 'focus' | 'punctuality';
+export type GoalCategory = string;
 
 export interface GoalTemplate {
   id: GoalCategory;
   title: string;
   description: string;
+  color: string;
   reminders: string[];
 }
 
@@ -19,27 +20,119 @@ export interface ReminderSettings {
   timesPerDay: number;
   startHour: number;
   endHour: number;
+  minGapMinutes: number;
+  adaptive: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  startHour: number;
+  endHour: number;
+}
+
+export interface Vacation {
+  startDate: string;
+  endDate: string;
+}
+
+export interface ReminderPauseSettings {
+  quietHours: QuietHours;
+  mutedWeekdays: WeekdayKey[];
+  vacation: Vacation | null;
+}
+
+export interface TimeSettings {
+  homeTimeZone: string | null;
+  dayEndHour: number;
+}
+
+export type NotificationSource = 'goal' | 'task' | 'snooze' | 'checkin' | 'test';
+
+export interface NotificationLogEntry {
+  id: string;
+  source: NotificationSource;
+  taskId?: string;
+  scheduledAt: string;
+  deliveredAt?: string;
+  suppressedAt?: string;
+  respondedAt?: string;
+  action?: string;
+}
+
+export interface PendingTaskAction {
+  action: 'done' | 'skip';
+  taskId: string;
+  firedAt: string;
 }
 
 export interface DailyCheckin {
   date: string;
   score: number;
   note: string;
+  goalScores?: Record<string, number>;
+  enteredLate?: boolean;
+}
+
+export interface CheckinReminderSettings {
+  enabled: boolean;
+  time: string;
+  weekdays: WeekdayKey[];
+}
+
+export interface CheckinSettings {
+  backfillDays: number;
+  reminder: CheckinReminderSettings;
 }
 
+export type Locale = 'ru' | 'en';
+export type ThemeMode = 'system' | 'light' | 'dark';
+export type ColorScheme = Exclude<ThemeMode, 'system'>;
+
 export interface UserProfile {
   name: string;
   onboardingCompleted: boolean;
   isPremium: boolean;
+  language: Locale | null;
+  theme: ThemeMode;
 }
 
 export type SettingsBlockKind = 'traits' | 'emotions' | 'habits' | 'values' | 'custom';
+export type TemplateBlockKind = Exclude<SettingsBlockKind, 'custom'>;
 
 export interface SettingsBlock {
   id: string;
   kind: SettingsBlockKind;
   title: string;
   color: string;
+  templateKind?: string;
+}
+
+export interface TaskSuggestion {
+  title: string;
+  description?: string;
+  motivation?: string;
+}
+
+export interface PackBlockTemplate {
+  kind: string;
+  title: string;
+  color: string;
+}
+
+export interface TemplatePack {
+  id: string;
+  version: number;
+  title: string;
+  description: string;
+  goals: GoalTemplate[];
+  reminders: string[];
+  blocks: PackBlockTemplate[];
+  taskSuggestions: Record<string, TaskSuggestion[]>;
+}
+
+export interface InstalledTemplatePack {
+  pack: TemplatePack;
+  enabled: boolean;
 }
 
 export type ReminderMode = 'fixed' | 'random';
@@ -57,6 +150,7 @@ export interface RandomTaskReminder {
   startHour: number;
   endHour: number;
   timesInWindow: number;
+  minGapMinutes?: number;
 }
 
 export interface TaskReminderSettings {
@@ -71,14 +165,54 @@ export interface BlockTask {
   motivation: string;
   motivationImageUri: string;
   reminders: TaskReminderSettings;
+  archivedAt?: string;
 }
 
+export interface TaskCompletion {
+  taskId: string;
+  date: string;
+  count?: number;
+  note?: string;
+}
+
+export interface TaskSkip {
+  taskId: string;
+  date: string;
+}
+
+export interface TrashedTask {
+  kind: 'task';
+  id: string;
+  deletedAt: string;
+  blockId: string;
+  task: BlockTask;
+}
+
+export interface TrashedBlock {
+  kind: 'block';
+  id: string;
+  deletedAt: string;
+  block: SettingsBlock;
+  note: string;
+  tasks: BlockTask[];
+}
+
+export type TrashItem = TrashedTask | TrashedBlock;
+
 export interface AppState {
   goals: UserGoal[];
   reminderSettings: ReminderSettings;
+  reminderPause: ReminderPauseSettings;
+  timeSettings: TimeSettings;
+  customGoalCategories: GoalTemplate[];
+  templatePacks: InstalledTemplatePack[];
   checkins: DailyCheckin[];
+  checkinSettings: CheckinSettings;
   profile: UserProfile;
   settingsBlocks: SettingsBlock[];
   sectionNotes: Record<string, string>;
   sectionTasks: Record<string, BlockTask[]>;
+  taskCompletions: TaskCompletion[];
+  taskSkips: TaskSkip[];
+  trash: TrashItem[];
 }
@@ -0,0 +1,68 @@
+import { defaultState } from '../../constants/defaultState';
+import { AppState, BlockTask } from '../../types';
+import { mergeStates, previewImport } from '../backup';
+
+function task(id: string, title = id): BlockTask {
+  return {
+    id,
+    title,
+    description: '',
+    motivation: '',
+    motivationImageUri: '',
+    reminders: { enabled: false, config: { mode: 'fixed', weekdays: [], times: [] } },
+  };
+}
+
+function state(overrides: Partial<AppState>): AppState {
+  return { ...defaultState, ...overrides };
+}
+
+describe('mergeStates', () => {
+  it('keeps a task moved to another block only in its incoming block', () => {
+    const current = state({ sectionTasks: { habits: [task('run'), task('read')], values: [] } });
+    const incoming = state({ sectionTasks: { values: [task('run', 'Run daily')] } });
+
+    const merged = mergeStates(current, incoming);
+
+    expect(merged.sectionTasks.habits?.map((item) => item.id)).toEqual(['read']);
+    expect(merged.sectionTasks.values).toEqual([task('run', 'Run daily')]);
+  });
+
+  it('updates a task in place when it stays in the same block', () => {
+    const current = state({ sectionTasks: { habits: [task('run'), task('read')] } });
+    const incoming = state({ sectionTasks: { habits: [task('run', 'Run daily')] } });
+
+    const merged = mergeStates(current, incoming);
+
+    expect(merged.sectionTasks.habits?.map((item) => item.title)).toEqual(['Run daily', 'read']);
+  });
+
+  it('keeps the local goal id and remaps incoming goal scores to it', () => {
+    const current = state({
+      goals: [{ id: 'patience-1', category: 'patience', customAction: 'Breathe', isActive: true }],
+      checkins: [{ date: '2026-03-01', score: 4, note: '', goalScores: { 'patience-1': 4 } }],
+    });
+    const incoming = state({
+      goals: [{ id: 'patience-2', category: 'patience', customAction: 'Count to ten', isActive: true }],
+      checkins: [{ date: '2026-03-02', score: 3, note: '', goalScores: { 'patience-2': 2 } }],
+    });
+
+    const merged = mergeStates(current, incoming);
+
+    expect(merged.goals).toEqual([
+      { id: 'patience-1', category: 'patience', customAction: 'Count to ten', isActive: true },
+    ]);
+    expect(merged.checkins.map((checkin) => checkin.goalScores)).toEqual([{ 'patience-1': 4 }, { 'patience-1': 2 }]);
+  });
+});
+
+describe('previewImport', () => {
+  it('counts a moved task as updated rather than added', () => {
+    const current = state({ sectionTasks: { habits: [task('run')] } });
+    const incoming = state({ sectionTasks: { values: [task('run')] } });
+
+    const tasks = previewImport(current, incoming, 'merge').find((section) => section.label === 'backup.section.tasks');
+
+    expect(tasks).toEqual({ label: 'backup.section.tasks', added: 0, updated: 1, removed: 0 });
+  });
+});
@@ -0,0 +1,45 @@
+import { createClock, zonedTime } from '../clock';
+import { dateAtTime, dateKeyOf, displayDateTime } from '../date';
+
+function wallTime(timeZone: string, date: string, hour: number, minute = 30): string {
+  const [year = 1970, month = 1, day = 1] = date.split('-').map(Number);
+  return zonedTime({ year, month, day, hour, minute }, timeZone).toISOString();
+}
+
+describe('zonedTime', () => {
+  it('moves a time skipped by the spring switch forward by the gap', () => {
+    expect(wallTime('Europe/Berlin', '2026-03-29', 1)).toBe('2026-03-29T00:30:00.000Z');
+    expect(wallTime('Europe/Berlin', '2026-03-29', 2)).toBe('2026-03-29T01:30:00.000Z');
+    expect(wallTime('Europe/Berlin', '2026-03-29', 3)).toBe('2026-03-29T01:30:00.000Z');
+
+    expect(wallTime('America/New_York', '2026-03-08', 1)).toBe('2026-03-08T06:30:00.000Z');
+    expect(wallTime('America/New_York', '2026-03-08', 2)).toBe('2026-03-08T07:30:00.000Z');
+    expect(wallTime('America/New_York', '2026-03-08', 3)).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('takes the earlier instant of a time repeated by the autumn switch', () => {
+    expect(wallTime('Europe/Berlin', '2026-10-25', 2)).toBe('2026-10-25T00:30:00.000Z');
+    expect(wallTime('Europe/Berlin', '2026-10-25', 3)).toBe('2026-10-25T02:30:00.000Z');
+
+    expect(wallTime('America/New_York', '2026-11-01', 1)).toBe('2026-11-01T05:30:00.000Z');
+    expect(wallTime('America/New_York', '2026-11-01', 2)).toBe('2026-11-01T07:30:00.000Z');
+  });
+});
+
+describe('day boundary', () => {
+  const clock = createClock({ homeTimeZone: 'Europe/Berlin', dayEndHour: 3 }, 'UTC');
+
+  it('counts hours before the day end for the previous day', () => {
+    expect(dateKeyOf('2026-03-10T01:00:00.000Z', clock)).toBe('2026-03-09');
+    expect(dateKeyOf('2026-03-10T02:00:00.000Z', clock)).toBe('2026-03-10');
+  });
+
+  it('places times before the day end on the next calendar day', () => {
+    expect(dateAtTime('2026-03-09', 1, 0, clock).toISOString()).toBe('2026-03-10T00:00:00.000Z');
+    expect(dateAtTime('2026-03-09', 22, 0, clock).toISOString()).toBe('2026-03-09T21:00:00.000Z');
+  });
+
+  it('shows timestamps as the wall time in the home zone', () => {
+    expect(displayDateTime('2026-03-10T01:00:00.000Z', 'en', clock)).toBe('03/10 02:00');
+  });
+});
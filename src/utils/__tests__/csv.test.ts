@@ -0,0 +1,34 @@
+import { defaultState } from '../../constants/defaultState';
+import { createI18n } from '../../i18n';
+import { buildProgressCsv, escapeCsvField } from '../csv';
+
+describe('escapeCsvField', () => {
+  it('prefixes text that a spreadsheet would run as a formula', () => {
+    expect(escapeCsvField('=HYPERLINK("x")', ',')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(escapeCsvField('+1', ',')).toBe("'+1");
+    expect(escapeCsvField('-5', ',')).toBe("'-5");
+    expect(escapeCsvField('@sum', ',')).toBe("'@sum");
+    expect(escapeCsvField('\t=1+1', ',')).toBe("'\t=1+1");
+    expect(escapeCsvField('\r=1+1', ',')).toBe(`"'\r=1+1"`);
+  });
+
+  it('leaves numbers and plain text as they are', () => {
+    expect(escapeCsvField(-5, ',')).toBe('-5');
+    expect(escapeCsvField('Calm day', ',')).toBe('Calm day');
+  });
+});
+
+describe('buildProgressCsv', () => {
+  it('writes one row per day with a check-in and no column for current goals', () => {
+    const csv = buildProgressCsv(
+      { ...defaultState, checkins: [{ date: '2026-03-02', score: 4, note: '=cmd' }] },
+      ['2026-03-01', '2026-03-02'],
+      createI18n('en'),
+    );
+
+    const [header, row, ...rest] = csv.replace('\uFEFF', '').split('\r\n');
+    expect(header?.split(',')).toHaveLength(6);
+    expect(row).toBe("2026-03-02,4,,'=cmd,0,");
+    expect(rest).toEqual(['']);
+  });
+});
@@ -0,0 +1,35 @@
+import { NotificationLogEntry } from '../../types';
+import { markNotificationDelivered, markNotificationSuppressed, settleNotificationLog } from '../notificationLog';
+
+const planned: NotificationLogEntry = { id: 'goal-1', source: 'goal', scheduledAt: '2026-03-01T09:00:00.000Z' };
+
+describe('settleNotificationLog', () => {
+  it('counts a past planned fire as delivered', () => {
+    const [entry] = settleNotificationLog([planned], new Date('2026-03-01T10:00:00.000Z'));
+
+    expect(entry?.deliveredAt).toBe(planned.scheduledAt);
+  });
+
+  it('leaves fires the app hid out of the deliveries', () => {
+    const log = markNotificationSuppressed([planned], planned, '2026-03-01T09:00:05.000Z');
+    const [entry] = settleNotificationLog(log, new Date('2026-03-01T10:00:00.000Z'));
+
+    expect(entry?.deliveredAt).toBeUndefined();
+    expect(entry?.suppressedAt).toBe('2026-03-01T09:00:05.000Z');
+  });
+
+  it('keeps future fires planned', () => {
+    const [entry] = settleNotificationLog([planned], new Date('2026-03-01T08:00:00.000Z'));
+
+    expect(entry?.deliveredAt).toBeUndefined();
+  });
+});
+
+describe('markNotificationSuppressed', () => {
+  it('replaces an earlier delivery of the same fire', () => {
+    const delivered = markNotificationDelivered([planned], planned, planned.scheduledAt);
+    const [entry] = markNotificationSuppressed(delivered, planned, planned.scheduledAt);
+
+    expect(entry).toEqual({ ...planned, suppressedAt: planned.scheduledAt });
+  });
+});
@@ -0,0 +1,66 @@
+import { seededRandom } from '../random';
+import { randomDayTimes, ReminderTime, rotateReminderTexts } from '../reminders';
+
+function minutesOf(times: ReminderTime[]): number[] {
+  return times.map((time) => time.hour * 60 + time.minute);
+}
+
+function gapsOf(minutes: number[]): number[] {
+  return minutes.slice(1).map((minute, index) => minute - (minutes[index] ?? 0));
+}
+
+describe('randomDayTimes', () => {
+  it('keeps the minimum gap inside the window', () => {
+    for (let day = 1; day <= 30; day += 1) {
+      const minutes = minutesOf(randomDayTimes(`task:2026-03-${day}`, 9, 21, 5, 60));
+
+      expect(minutes).toHaveLength(5);
+      expect(Math.min(...minutes)).toBeGreaterThanOrEqual(9 * 60);
+      expect(Math.max(...minutes)).toBeLessThan(21 * 60);
+      gapsOf(minutes).forEach((gap) => expect(gap).toBeGreaterThanOrEqual(60));
+    }
+  });
+
+  it('shrinks the gap evenly when the window is too narrow for it', () => {
+    for (let day = 1; day <= 30; day += 1) {
+      const minutes = minutesOf(randomDayTimes(`task:2026-03-${day}`, 9, 10, 4, 30));
+
+      expect(minutes).toHaveLength(4);
+      expect(Math.max(...minutes)).toBeLessThan(10 * 60);
+      gapsOf(minutes).forEach((gap) => expect(gap).toBeGreaterThanOrEqual(19));
+    }
+  });
+
+  it('returns the same times for the same seed', () => {
+    expect(randomDayTimes('goal:2026-03-01', 8, 22, 3, 45)).toEqual(randomDayTimes('goal:2026-03-01', 8, 22, 3, 45));
+  });
+
+  it('returns nothing for an empty window', () => {
+    expect(randomDayTimes('goal:2026-03-01', 12, 12, 3, 30)).toEqual([]);
+  });
+});
+
+describe('rotateReminderTexts', () => {
+  const pool = ['Breathe', 'Walk', 'Drink water'];
+
+  it('never repeats a text back to back, also across cycles', () => {
+    for (let run = 0; run < 50; run += 1) {
+      const texts = rotateReminderTexts(pool, 30, seededRandom(`run-${run}`));
+
+      expect(texts).toHaveLength(30);
+      texts.slice(1).forEach((text, index) => expect(text).not.toBe(texts[index]));
+    }
+  });
+
+  it('uses every text once per cycle', () => {
+    const texts = rotateReminderTexts(pool, 9, seededRandom('cycles'));
+
+    for (let start = 0; start < texts.length; start += pool.length) {
+      expect([...texts.slice(start, start + pool.length)].sort()).toEqual([...pool].sort());
+    }
+  });
+
+  it('returns nothing for an empty pool', () => {
+    expect(rotateReminderTexts([], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { defaultState } from '../../constants/defaultState';
+import { migrateState, repairState, SCHEMA_VERSION, validateState } from '../schema';
+
+const v1Payload = {
+  goals: [{ id: 'g1', category: 'health', customAction: 'Walk', isActive: true }],
+  checkins: [{ date: '2026-03-01', score: 7, note: 'ok' }],
+  profile: { name: 'Anna', onboardingCompleted: true },
+  sectionTasks: {},
+};
+
+describe('migrateState', () => {
+  it('brings a v1 payload up to a valid current state', () => {
+    const migrated = migrateState(v1Payload, 1);
+    const state = validateState(migrated);
+
+    expect(state).not.toBeNull();
+    expect(state?.goals).toEqual(v1Payload.goals);
+    expect(state?.profile).toEqual({ ...defaultState.profile, name: 'Anna', onboardingCompleted: true });
+    expect(state?.reminderSettings).toEqual(defaultState.reminderSettings);
+    expect(state?.checkinSettings).toEqual(defaultState.checkinSettings);
+    expect(state?.timeSettings).toEqual(defaultState.timeSettings);
+    expect(state?.trash).toEqual([]);
+  });
+
+  it('leaves a current payload untouched', () => {
+    expect(migrateState(v1Payload, SCHEMA_VERSION)).toBe(v1Payload);
+  });
+
+  it('rejects unknown versions', () => {
+    expect(migrateState(v1Payload, 0)).toBeNull();
+    expect(migrateState(v1Payload, SCHEMA_VERSION + 1)).toBeNull();
+    expect(migrateState(v1Payload, 1.5)).toBeNull();
+  });
+});
+
+describe('repairState', () => {
+  it('reports nothing dropped for a valid state', () => {
+    expect(repairState(defaultState)).toEqual({ state: defaultState, dropped: 0 });
+  });
+
+  it('drops invalid records and counts each one', () => {
+    const repaired = repairState({
+      ...defaultState,
+      checkins: [
+        { date: '2026-03-01', score: 7, note: '' },
+        { date: '2026-03-02', score: 'high', note: '' },
+      ],
+      taskSkips: [{ taskId: 't1' }],
+      sectionNotes: { habits: 'Sleep early', values: 42 },
+    });
+
+    expect(repaired?.dropped).toBe(3);
+    expect(repaired?.state.checkins).toEqual([{ date: '2026-03-01', score: 7, note: '' }]);
+    expect(repaired?.state.taskSkips).toEqual([]);
+    expect(repaired?.state.sectionNotes).toEqual({ habits: 'Sleep early' });
+    expect(repairState(repaired?.state)?.dropped).toBe(0);
+  });
+
+  it('falls back to defaults field by field', () => {
+    const repaired = repairState({
+      ...defaultState,
+      reminderSettings: { ...defaultState.reminderSettings, timesPerDay: 5, startHour: 'morning' },
+      timeSettings: null,
+    });
+
+    expect(repaired?.dropped).toBe(2);
+    expect(repaired?.state.reminderSettings).toEqual({ ...defaultState.reminderSettings, timesPerDay: 5 });
+    expect(repaired?.state.timeSettings).toEqual(defaultState.timeSettings);
+  });
+
+  it('drops goal categories with colours that are not hex', () => {
+    const category = { id: 'c1', title: 'Focus', description: '', color: '#4169e1', reminders: [] };
+    const repaired = repairState({
+      ...defaultState,
+      customGoalCategories: [category, { ...category, id: 'c2', color: 'red' }],
+    });
+
+    expect(repaired?.dropped).toBe(1);
+    expect(repaired?.state.customGoalCategories).toEqual([category]);
+  });
+
+  it('fails only when the payload is not an object', () => {
+    expect(repairState(null)).toBeNull();
+    expect(repairState([])).toBeNull();
+    expect(validateState({ ...defaultState, trash: 'none' })).toBeNull();
+  });
+});
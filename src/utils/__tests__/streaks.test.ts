@@ -0,0 +1,50 @@
+import { BlockTask, TaskCompletion } from '../../types';
+import { checkinStreak, taskStreak } from '../streaks';
+
+const weekdayTask: BlockTask = {
+  id: 'run',
+  title: 'Run',
+  description: '',
+  motivation: '',
+  motivationImageUri: '',
+  reminders: { enabled: true, config: { mode: 'fixed', weekdays: ['mon', 'wed', 'fri'], times: ['08:00'] } },
+};
+
+function completions(...dates: string[]): TaskCompletion[] {
+  return dates.map((date) => ({ taskId: weekdayTask.id, date }));
+}
+
+describe('taskStreak', () => {
+  it('does not break on days the task is not scheduled', () => {
+    const streak = taskStreak(weekdayTask, completions('2026-03-02', '2026-03-04', '2026-03-06'), '2026-03-08');
+
+    expect(streak).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('breaks on a missed scheduled day', () => {
+    const streak = taskStreak(weekdayTask, completions('2026-03-02', '2026-03-06', '2026-03-09'), '2026-03-09');
+
+    expect(streak).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('keeps the streak over a skipped scheduled day', () => {
+    const skips = [{ taskId: weekdayTask.id, date: '2026-03-04' }];
+    const streak = taskStreak(weekdayTask, completions('2026-03-02', '2026-03-06'), '2026-03-06', skips);
+
+    expect(streak.current).toBe(2);
+  });
+
+  it('keeps the streak while today is still open', () => {
+    expect(taskStreak(weekdayTask, completions('2026-03-02', '2026-03-04'), '2026-03-06').current).toBe(2);
+  });
+});
+
+describe('checkinStreak', () => {
+  it('skips days off', () => {
+    const checkins = ['2026-03-06', '2026-03-09'].map((date) => ({ date, score: 4, note: '' }));
+    const isWeekend = (date: string) => date === '2026-03-07' || date === '2026-03-08';
+
+    expect(checkinStreak(checkins, '2026-03-09', isWeekend).current).toBe(2);
+    expect(checkinStreak(checkins, '2026-03-09').current).toBe(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { normalizeTemplatePack, PACK_FORMAT, PACK_FORMAT_VERSION, parseTemplatePack } from '../templatePacks';
+
+const pack = {
+  format: PACK_FORMAT,
+  formatVersion: PACK_FORMAT_VERSION,
+  id: 'sleep',
+  version: 1,
+  title: 'Sleep',
+  description: 'Better evenings',
+  goals: [{ id: 'bedtime', title: 'Bedtime', color: '#2f9e6e', reminders: ['Lights out soon'] }],
+  reminders: [],
+  blocks: [{ kind: 'evening', title: 'Evening', color: '#abc' }],
+  taskSuggestions: {},
+};
+
+describe('normalizeTemplatePack', () => {
+  it('accepts a well-formed pack', () => {
+    const normalized = normalizeTemplatePack(pack);
+
+    expect(normalized?.goals).toEqual([
+      { id: 'sleep:bedtime', title: 'Bedtime', description: '', color: '#2f9e6e', reminders: ['Lights out soon'] },
+    ]);
+    expect(normalized?.blocks).toEqual([{ kind: 'evening', title: 'Evening', color: '#abc' }]);
+  });
+
+  it('rejects an unknown format or a newer format version', () => {
+    expect(normalizeTemplatePack({ ...pack, format: 'other-app-pack' })).toBeNull();
+    expect(normalizeTemplatePack({ ...pack, formatVersion: PACK_FORMAT_VERSION + 1 })).toBeNull();
+  });
+
+  it('rejects ids that are not lowercase slugs', () => {
+    expect(normalizeTemplatePack({ ...pack, id: 'Sleep' })).toBeNull();
+    expect(normalizeTemplatePack({ ...pack, id: '-sleep' })).toBeNull();
+    expect(normalizeTemplatePack({ ...pack, id: 'sleep/night' })).toBeNull();
+  });
+
+  it('rejects a missing or fractional version', () => {
+    expect(normalizeTemplatePack({ ...pack, version: undefined })).toBeNull();
+    expect(normalizeTemplatePack({ ...pack, version: 1.5 })).toBeNull();
+  });
+
+  it('replaces colours that are not #rgb or #rrggbb', () => {
+    const normalized = normalizeTemplatePack({
+      ...pack,
+      goals: [{ id: 'bedtime', title: 'Bedtime', color: 'url(https://example.com/x.png)' }],
+      blocks: [{ kind: 'evening', title: 'Evening', color: '#12345' }],
+    });
+
+    expect(normalized?.goals[0]?.color).toBe('#4169e1');
+    expect(normalized?.blocks[0]?.color).toBe('#f0f6ff');
+  });
+});
+
+describe('parseTemplatePack', () => {
+  it('rejects text that is not a JSON object', () => {
+    expect(parseTemplatePack('not json')).toBeNull();
+    expect(parseTemplatePack('[]')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { NotificationLogEntry, ReminderSettings } from '../types';
+import { Clock } from './clock';
+import { hourOf } from './date';
+import { clamp } from './math';
+
+export const ADAPTIVE_WINDOW_DAYS = 30;
+export const MIN_DELIVERIES_FOR_ADAPTATION = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HourResponseStat {
+  hour: number;
+  delivered: number;
+  responded: number;
+  rate: number;
+  share: number;
+}
+
+export interface AdaptiveTimingReport {
+  isActive: boolean;
+  delivered: number;
+  responded: number;
+  hours: HourResponseStat[];
+}
+
+function windowHours(settings: ReminderSettings): number[] {
+  const startHour = clamp(Math.floor(settings.startHour), 0, 23);
+  const endHour = clamp(Math.floor(settings.endHour), 1, 24);
+  return Array.from({ length: Math.max(0, endHour - startHour) }, (_, index) => startHour + index);
+}
+
+// Response rates use a 1/2 prior, so quiet hours keep getting a share of slots and can recover.
+export function buildAdaptiveTimingReport(
+  log: NotificationLogEntry[],
+  settings: ReminderSettings,
+  clock: Clock,
+): AdaptiveTimingReport {
+  const since = clock.now().getTime() - ADAPTIVE_WINDOW_DAYS * DAY_MS;
+  const counts = new Map(windowHours(settings).map((hour) => [hour, { delivered: 0, responded: 0 }]));
+
+  log.forEach((entry) => {
+    if (entry.source !== 'goal' || !entry.deliveredAt || Date.parse(entry.deliveredAt) < since) {
+      return;
+    }
+
+    const count = counts.get(hourOf(new Date(entry.scheduledAt), clock));
+    if (!count) {
+      return;
+    }
+    count.delivered += 1;
+    if (entry.respondedAt) {
+      count.responded += 1;
+    }
+  });
+
+  const rows = [...counts.entries()].map(([hour, count]) => ({
+    hour,
+    ...count,
+    rate: (count.responded + 1) / (count.delivered + 2),
+  }));
+  const delivered = rows.reduce((sum, row) => sum + row.delivered, 0);
+  const responded = rows.reduce((sum, row) => sum + row.responded, 0);
+  const isActive = settings.adaptive && delivered >= MIN_DELIVERIES_FOR_ADAPTATION;
+  const totalRate = rows.reduce((sum, row) => sum + row.rate, 0);
+
+  return {
+    isActive,
+    delivered,
+    responded,
+    hours: rows.map((row) => ({
+      ...row,
+      share: isActive && totalRate > 0 ? row.rate / totalRate : 1 / rows.length,
+    })),
+  };
+}
+
+export function adaptiveHourWeights(report: AdaptiveTimingReport): number[] | null {
+  return report.isActive ? report.hours.map((row) => row.share) : null;
+}
@@ -0,0 +1,232 @@
+import { MessageKey } from '../i18n';
+import { AppState, DailyCheckin } from '../types';
+import { migrateState, SCHEMA_VERSION, validateState } from './schema';
+
+export const BACKUP_FORMAT = 'character-plus-backup';
+export const BACKUP_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  exportedAt: string;
+  schemaVersion: number;
+  state: AppState;
+}
+
+export interface ImportSectionDiff {
+  label: MessageKey;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export function createBackup(state: AppState, exportedAt = new Date()): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    state,
+  };
+}
+
+export function serializeBackup(state: AppState): string {
+  return JSON.stringify(createBackup(state), null, 2);
+}
+
+export function parseBackup(raw: string): AppState | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+
+  const candidate = parsed as Record<string, unknown>;
+  if (
+    candidate.format !== BACKUP_FORMAT ||
+    typeof candidate.backupVersion !== 'number' ||
+    candidate.backupVersion > BACKUP_VERSION ||
+    typeof candidate.schemaVersion !== 'number' ||
+    typeof candidate.state !== 'object' ||
+    candidate.state === null
+  ) {
+    return null;
+  }
+
+  return validateState(migrateState(candidate.state as Record<string, unknown>, candidate.schemaVersion));
+}
+
+// Goal ids differ between devices, so goals are matched by category and compared without their id.
+function goalEntries(state: AppState): [string, unknown][] {
+  return state.goals.map(({ category, customAction, isActive }) => [category, { customAction, isActive }]);
+}
+
+function taskEntries(state: AppState): [string, unknown][] {
+  return Object.entries(state.sectionTasks).flatMap(([blockId, tasks]) =>
+    tasks.map((task): [string, unknown] => [task.id, { blockId, task }]),
+  );
+}
+
+function diffCollection(
+  label: MessageKey,
+  current: [string, unknown][],
+  incoming: [string, unknown][],
+  mode: ImportMode,
+): ImportSectionDiff {
+  const currentByKey = new Map(current);
+  const incomingKeys = new Set(incoming.map(([key]) => key));
+  let added = 0;
+  let updated = 0;
+
+  incoming.forEach(([key, value]) => {
+    if (!currentByKey.has(key)) {
+      added += 1;
+    } else if (JSON.stringify(currentByKey.get(key)) !== JSON.stringify(value)) {
+      updated += 1;
+    }
+  });
+
+  const removed = mode === 'replace' ? current.filter(([key]) => !incomingKeys.has(key)).length : 0;
+  return { label, added, updated, removed };
+}
+
+export function previewImport(current: AppState, incoming: AppState, mode: ImportMode): ImportSectionDiff[] {
+  return [
+    diffCollection('backup.section.goals', goalEntries(current), goalEntries(incoming), mode),
+    diffCollection(
+      'backup.section.goalCategories',
+      current.customGoalCategories.map((category) => [category.id, category]),
+      incoming.customGoalCategories.map((category) => [category.id, category]),
+      mode,
+    ),
+    diffCollection(
+      'backup.section.templatePacks',
+      current.templatePacks.map((item) => [item.pack.id, item]),
+      incoming.templatePacks.map((item) => [item.pack.id, item]),
+      mode,
+    ),
+    diffCollection(
+      'backup.section.checkins',
+      current.checkins.map((item) => [item.date, item]),
+      incoming.checkins.map((item) => [item.date, item]),
+      mode,
+    ),
+    diffCollection(
+      'backup.section.blocks',
+      current.settingsBlocks.map((block) => [block.id, block]),
+      incoming.settingsBlocks.map((block) => [block.id, block]),
+      mode,
+    ),
+    diffCollection('backup.section.tasks', taskEntries(current), taskEntries(incoming), mode),
+    diffCollection(
+      'backup.section.completions',
+      current.taskCompletions.map((item) => [`${item.taskId}/${item.date}`, item]),
+      incoming.taskCompletions.map((item) => [`${item.taskId}/${item.date}`, item]),
+      mode,
+    ),
+    diffCollection(
+      'backup.section.skips',
+      current.taskSkips.map((item) => [`${item.taskId}/${item.date}`, item]),
+      incoming.taskSkips.map((item) => [`${item.taskId}/${item.date}`, item]),
+      mode,
+    ),
+    diffCollection(
+      'backup.section.notes',
+      Object.entries(current.sectionNotes).filter(([, note]) => note),
+      Object.entries(incoming.sectionNotes).filter(([, note]) => note),
+      mode,
+    ),
+    diffCollection(
+      'backup.section.trash',
+      current.trash.map((item) => [item.id, item]),
+      incoming.trash.map((item) => [item.id, item]),
+      mode,
+    ),
+  ];
+}
+
+function mergeByKey<T>(current: T[], incoming: T[], keyOf: (item: T) => string): T[] {
+  const incomingByKey = new Map(incoming.map((item) => [keyOf(item), item]));
+  const merged = current.map((item) => incomingByKey.get(keyOf(item)) ?? item);
+  const currentKeys = new Set(current.map(keyOf));
+  return [...merged, ...incoming.filter((item) => !currentKeys.has(keyOf(item)))];
+}
+
+function remapGoalScores(checkins: DailyCheckin[], goalIds: Map<string, string>): DailyCheckin[] {
+  return checkins.map((checkin) =>
+    checkin.goalScores
+      ? {
+          ...checkin,
+          goalScores: Object.fromEntries(
+            Object.entries(checkin.goalScores).map(([goalId, score]) => [goalIds.get(goalId) ?? goalId, score]),
+          ),
+        }
+      : checkin,
+  );
+}
+
+export function mergeStates(current: AppState, incoming: AppState): AppState {
+  const incomingBlockOfTask = new Map(
+    Object.entries(incoming.sectionTasks).flatMap(([blockId, tasks]) => tasks.map((task) => [task.id, blockId])),
+  );
+  const sectionTasks = Object.fromEntries(
+    Object.entries(current.sectionTasks).map(([blockId, tasks]) => [
+      blockId,
+      tasks.filter((task) => (incomingBlockOfTask.get(task.id) ?? blockId) === blockId),
+    ]),
+  );
+  Object.entries(incoming.sectionTasks).forEach(([blockId, tasks]) => {
+    sectionTasks[blockId] = mergeByKey(sectionTasks[blockId] ?? [], tasks, (task) => task.id);
+  });
+
+  const goalIds = new Map<string, string>();
+  const incomingGoals = incoming.goals.map((goal) => {
+    const local = current.goals.find((item) => item.category === goal.category);
+    if (!local || local.id === goal.id) {
+      return goal;
+    }
+
+    goalIds.set(goal.id, local.id);
+    return { ...goal, id: local.id };
+  });
+
+  const sectionNotes = { ...current.sectionNotes };
+  Object.entries(incoming.sectionNotes).forEach(([blockId, note]) => {
+    if (note || sectionNotes[blockId] === undefined) {
+      sectionNotes[blockId] = note;
+    }
+  });
+
+  return {
+    ...current,
+    customGoalCategories: mergeByKey(
+      current.customGoalCategories,
+      incoming.customGoalCategories,
+      (category) => category.id,
+    ),
+    templatePacks: mergeByKey(current.templatePacks, incoming.templatePacks, (item) => item.pack.id),
+    goals: mergeByKey(current.goals, incomingGoals, (goal) => goal.category),
+    checkins: mergeByKey(current.checkins, remapGoalScores(incoming.checkins, goalIds), (item) => item.date),
+    settingsBlocks: mergeByKey(current.settingsBlocks, incoming.settingsBlocks, (block) => block.id),
+    sectionNotes,
+    sectionTasks,
+    taskCompletions: mergeByKey(
+      current.taskCompletions,
+      incoming.taskCompletions,
+      (item) => `${item.taskId}/${item.date}`,
+    ),
+    taskSkips: mergeByKey(current.taskSkips, incoming.taskSkips, (item) => `${item.taskId}/${item.date}`),
+    trash: mergeByKey(current.trash, incoming.trash, (item) => item.id),
+  };
+}
+
+export function applyImport(current: AppState, incoming: AppState, mode: ImportMode): AppState {
+  return mode === 'replace' ? incoming : mergeStates(current, incoming);
+}
@@ -0,0 +1,100 @@
+import { TimeSettings } from '../types';
+
+export interface Clock {
+  now: () => Date;
+  timeZone: string;
+  dayEndHour: number;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const FALLBACK_TIME_ZONE = 'UTC';
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  const cached = formatters.get(timeZone);
+  if (cached) {
+    return cached;
+  }
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  formatters.set(timeZone, formatter);
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function deviceTimeZone(): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : FALLBACK_TIME_ZONE;
+}
+
+export function createClock(settings: TimeSettings, deviceZone = deviceTimeZone(), now = () => new Date()): Clock {
+  const home = settings.homeTimeZone;
+  return {
+    now,
+    timeZone: home && isValidTimeZone(home) ? home : deviceZone,
+    dayEndHour: settings.dayEndHour,
+  };
+}
+
+export function systemClock(): Clock {
+  return createClock({ homeTimeZone: null, dayEndHour: 0 });
+}
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, Number(part.value)]),
+  );
+
+  return {
+    year: parts.year ?? 1970,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: (parts.hour ?? 0) % 24,
+    minute: parts.minute ?? 0,
+  };
+}
+
+function offsetAt(timestamp: number, timeZone: string): number {
+  const parts = zonedParts(new Date(timestamp), timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return wallClock - Math.floor(timestamp / MINUTE_MS) * MINUTE_MS;
+}
+
+// A wall time skipped by a DST switch moves forward by the gap; one it repeats takes the earlier instant.
+export function zonedTime(parts: ZonedParts, timeZone: string): Date {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const before = offsetAt(wallClock - DAY_MS, timeZone);
+  const after = offsetAt(wallClock + DAY_MS, timeZone);
+  const matches = [wallClock - before, wallClock - after].filter(
+    (timestamp) => offsetAt(timestamp, timeZone) === wallClock - timestamp,
+  );
+  return new Date(matches.length > 0 ? Math.min(...matches) : wallClock - before);
+}
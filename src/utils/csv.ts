@@ -0,0 +1,63 @@
+import { I18n, MessageKey } from '../i18n';
+import { AppState, Locale } from '../types';
+import { allGoalCategories, goalTitle } from './goals';
+
+const UTF8_BOM = '\uFEFF';
+const LINE_BREAK = '\r\n';
+// Excel splits columns on the list separator of the system locale: semicolons in Russian, commas in English.
+const DELIMITERS: Record<Locale, string> = { ru: ';', en: ',' };
+
+const HEADER: MessageKey[] = [
+  'csv.date',
+  'csv.score',
+  'csv.goalScores',
+  'csv.note',
+  'csv.doneCount',
+  'csv.tasks',
+];
+
+// Spreadsheets evaluate cells that start with these characters as formulas; a leading tab or CR can hide one.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsvField(value: string | number, delimiter = DELIMITERS.ru): string {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  if (!text.includes(delimiter) && !/["\r\n]/.test(text)) {
+    return text;
+  }
+
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function toCsvRow(fields: (string | number)[], delimiter: string): string {
+  return fields.map((field) => escapeCsvField(field, delimiter)).join(delimiter);
+}
+
+export function buildProgressCsv(state: AppState, days: string[], { locale, t }: I18n): string {
+  const delimiter = DELIMITERS[locale];
+  const taskTitles = new Map(
+    Object.values(state.sectionTasks)
+      .flat()
+      .map((task) => [task.id, task.title]),
+  );
+  const categories = allGoalCategories(state, locale);
+  const goalTitles = new Map(state.goals.map((goal) => [goal.id, goalTitle(goal.category, categories)]));
+
+  const rows = days.flatMap((date) => {
+    const checkin = state.checkins.find((item) => item.date === date);
+    const completions = state.taskCompletions.filter((item) => item.date === date);
+    if (!checkin && completions.length === 0) {
+      return [];
+    }
+
+    const doneCount = completions.reduce((sum, item) => sum + (item.count ?? 1), 0);
+    const doneTitles = completions.map((item) => taskTitles.get(item.taskId) ?? t('common.deletedTask')).join(', ');
+
+    const goalScores = Object.entries(checkin?.goalScores ?? {})
+      .map(([goalId, score]) => `${goalTitles.get(goalId) ?? t('common.deletedGoal')}: ${score}`)
+      .join(', ');
+
+    return [toCsvRow([date, checkin?.score ?? '', goalScores, checkin?.note ?? '', doneCount, doneTitles], delimiter)];
+  });
+
+  return UTF8_BOM + [toCsvRow(HEADER.map((key) => t(key)), delimiter), ...rows].join(LINE_BREAK) + LINE_BREAK;
+}
@@ -1,3 +1,12 @@
+import { DEFAULT_LOCALE, LOCALE_TAGS } from '../i18n';
+import { Locale, WeekdayKey } from '../types';
+import { Clock, systemClock, zonedParts, zonedTime } from './clock';
+
+const WEEKDAY_KEYS: WeekdayKey[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+export const WEEK_DAYS: WeekdayKey[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const SUNDAY_UTC = Date.UTC(2024, 0, 7);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 function formatDateKey(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -5,33 +14,117 @@ function formatDateKey(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
-export function todayKey(): string {
-  return formatDateKey(new Date());
+function calendarKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 }
 
-export function lastNDays(daysCount: number): string[] {
-  const normalized = Math.max(1, Math.floor(daysCount));
-  const days: string[] = [];
-  const now = new Date();
+function parseDateKey(dateKey: string): { year: number; month: number; day: number } {
+  const [year = 1970, month = 1, day = 1] = dateKey.split('-').map(Number);
+  return { year, month, day };
+}
 
-  for (let i = normalized - 1; i >= 0; i -= 1) {
-    const d = new Date(now);
-    d.setDate(now.getDate() - i);
-    days.push(formatDateKey(d));
+// Hours before `dayEndHour` still belong to the previous day, so a check-in at 01:00 counts for yesterday.
+export function dateKeyOf(timestamp: string, clock: Clock = systemClock()): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    return timestamp.slice(0, 10);
   }
 
-  return days;
+  const parts = zonedParts(date, clock.timeZone);
+  const key = calendarKey(parts.year, parts.month, parts.day);
+  return parts.hour < clock.dayEndHour ? shiftDateKey(key, -1) : key;
+}
+
+export function todayKey(clock: Clock = systemClock()): string {
+  return dateKeyOf(clock.now().toISOString(), clock);
+}
+
+export function hourOf(date: Date, clock: Clock = systemClock()): number {
+  return zonedParts(date, clock.timeZone).hour;
+}
+
+export function lastNDays(daysCount: number, today = todayKey()): string[] {
+  const normalized = Math.max(1, Math.floor(daysCount));
+  return Array.from({ length: normalized }, (_, index) => shiftDateKey(today, index - normalized + 1));
+}
+
+export function shiftDateKey(dateKey: string, days: number): string {
+  const { year, month, day } = parseDateKey(dateKey);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return calendarKey(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+export function nextNDays(daysCount: number, today = todayKey()): string[] {
+  return Array.from({ length: Math.max(1, Math.floor(daysCount)) }, (_, index) => shiftDateKey(today, index));
+}
+
+export function dateAtTime(dateKey: string, hour: number, minute: number, clock: Clock = systemClock()): Date {
+  const { year, month, day } = parseDateKey(hour < clock.dayEndHour ? shiftDateKey(dateKey, 1) : dateKey);
+  return zonedTime({ year, month, day, hour, minute }, clock.timeZone);
 }
 
 export function last7Days(): string[] {
   return lastNDays(7);
 }
 
-export function displayDate(dateKey: string): string {
+export function displayDate(dateKey: string, locale: Locale = DEFAULT_LOCALE): string {
   const parsed = new Date(`${dateKey}T00:00:00`);
   if (Number.isNaN(parsed.getTime())) {
     return dateKey;
   }
 
-  return parsed.toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit' });
+  return parsed.toLocaleDateString(LOCALE_TAGS[locale], { day: '2-digit', month: '2-digit' });
+}
+
+// Shows the wall time in the app zone; the date is the calendar date there, not the shifted day of `dayEndHour`.
+export function displayDateTime(
+  timestamp: string,
+  locale: Locale = DEFAULT_LOCALE,
+  clock: Clock = systemClock(),
+): string {
+  const parsed = new Date(timestamp);
+  if (Number.isNaN(parsed.getTime())) {
+    return timestamp;
+  }
+
+  const parts = zonedParts(parsed, clock.timeZone);
+  const time = `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+  return `${displayDate(calendarKey(parts.year, parts.month, parts.day), locale)} ${time}`;
+}
+
+export function weekdayOf(dateKey: string): WeekdayKey | null {
+  const parsed = new Date(`${dateKey}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+
+  return WEEKDAY_KEYS[parsed.getUTCDay()] ?? null;
+}
+
+export function weekdayLabel(day: WeekdayKey, locale: Locale = DEFAULT_LOCALE): string {
+  const label = new Date(SUNDAY_UTC + WEEKDAY_KEYS.indexOf(day) * DAY_MS).toLocaleDateString(LOCALE_TAGS[locale], {
+    weekday: 'short',
+    timeZone: 'UTC',
+  });
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+export function monthDateKeys(year: number, monthIndex: number): string[] {
+  const days: string[] = [];
+  const cursor = new Date(year, monthIndex, 1);
+
+  while (cursor.getMonth() === monthIndex) {
+    days.push(formatDateKey(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return days;
+}
+
+export function displayMonth(year: number, monthIndex: number, locale: Locale = DEFAULT_LOCALE): string {
+  return new Date(year, monthIndex, 1).toLocaleDateString(LOCALE_TAGS[locale], { month: 'long', year: 'numeric' });
 }
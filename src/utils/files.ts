@@ -0,0 +1,33 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+interface ShareFileOptions {
+  fileName: string;
+  content: string;
+  mimeType: string;
+  uti: string;
+  dialogTitle: string;
+}
+
+export async function shareTextFile({ fileName, content, mimeType, uti, dialogTitle }: ShareFileOptions): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(file.uri, { mimeType, UTI: uti, dialogTitle });
+}
+
+export async function pickTextFile(mimeTypes: string[]): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  const asset = result.canceled ? null : result.assets[0];
+  if (!asset) {
+    return null;
+  }
+
+  return new File(asset.uri).text();
+}
@@ -0,0 +1,27 @@
+import { GOAL_TEMPLATES } from '../constants/templates';
+import { DEFAULT_LOCALE } from '../i18n';
+import { AppState, GoalCategory, GoalTemplate, Locale } from '../types';
+import { packGoalCategories } from './templatePacks';
+
+export function allGoalCategories(
+  state: Pick<AppState, 'goals' | 'customGoalCategories' | 'templatePacks'>,
+  locale: Locale = DEFAULT_LOCALE,
+): GoalTemplate[] {
+  return [
+    ...GOAL_TEMPLATES[locale],
+    ...state.customGoalCategories,
+    ...packGoalCategories(state.templatePacks, state.goals),
+  ];
+}
+
+export function findGoalCategory(categories: GoalTemplate[], category: GoalCategory): GoalTemplate | undefined {
+  return categories.find((template) => template.id === category);
+}
+
+export function goalTitle(category: GoalCategory, categories: GoalTemplate[]): string {
+  return findGoalCategory(categories, category)?.title ?? category;
+}
+
+export function isBuiltInGoalCategory(category: GoalCategory): boolean {
+  return GOAL_TEMPLATES[DEFAULT_LOCALE].some((template) => template.id === category);
+}
@@ -0,0 +1,74 @@
+import { NotificationLogEntry } from '../types';
+
+export const NOTIFICATION_LOG_LIMIT = 500;
+
+function byScheduledAt(a: NotificationLogEntry, b: NotificationLogEntry): number {
+  return a.scheduledAt.localeCompare(b.scheduledAt);
+}
+
+function upsertEntry(
+  log: NotificationLogEntry[],
+  entry: NotificationLogEntry,
+  update: (current: NotificationLogEntry) => NotificationLogEntry,
+): NotificationLogEntry[] {
+  // Every fire is a one-off date trigger with its own request id.
+  const existing = log.find((item) => item.id === entry.id);
+  if (!existing) {
+    return [...log, update(entry)].sort(byScheduledAt);
+  }
+
+  return log.map((item) => (item === existing ? update(item) : item));
+}
+
+// Date triggers fire on time, so a past planned entry counts as delivered unless the app hid it while open.
+export function settleNotificationLog(log: NotificationLogEntry[], now: Date): NotificationLogEntry[] {
+  const nowIso = now.toISOString();
+  return log
+    .map((entry) =>
+      !entry.deliveredAt && !entry.suppressedAt && entry.scheduledAt <= nowIso
+        ? { ...entry, deliveredAt: entry.scheduledAt }
+        : entry,
+    )
+    .slice(-NOTIFICATION_LOG_LIMIT);
+}
+
+export function addPlannedNotifications(
+  log: NotificationLogEntry[],
+  entries: NotificationLogEntry[],
+): NotificationLogEntry[] {
+  return [...log, ...entries].sort(byScheduledAt);
+}
+
+export function dropPlannedNotifications(log: NotificationLogEntry[], ids: Set<string>): NotificationLogEntry[] {
+  return log.filter((entry) => !ids.has(entry.id) || entry.deliveredAt);
+}
+
+export function markNotificationDelivered(
+  log: NotificationLogEntry[],
+  entry: NotificationLogEntry,
+  deliveredAt: string,
+): NotificationLogEntry[] {
+  return upsertEntry(log, entry, (current) => ({ ...current, deliveredAt }));
+}
+
+export function markNotificationSuppressed(
+  log: NotificationLogEntry[],
+  entry: NotificationLogEntry,
+  suppressedAt: string,
+): NotificationLogEntry[] {
+  return upsertEntry(log, entry, ({ deliveredAt: _deliveredAt, ...current }) => ({ ...current, suppressedAt }));
+}
+
+export function markNotificationResponded(
+  log: NotificationLogEntry[],
+  entry: NotificationLogEntry,
+  action: string,
+  respondedAt: string,
+): NotificationLogEntry[] {
+  return upsertEntry(log, entry, (current) => ({
+    ...current,
+    deliveredAt: current.deliveredAt ?? current.scheduledAt,
+    respondedAt: current.respondedAt ?? respondedAt,
+    action: current.action ?? action,
+  }));
+}
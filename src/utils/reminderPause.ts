@@ -0,0 +1,27 @@
+import { QuietHours, ReminderPauseSettings, Vacation } from '../types';
+import { Clock, systemClock } from './clock';
+import { dateKeyOf, hourOf, weekdayOf } from './date';
+
+export function isVacationDay(vacation: Vacation | null, dateKey: string): boolean {
+  return Boolean(vacation && dateKey >= vacation.startDate && dateKey <= vacation.endDate);
+}
+
+// A window whose start is after its end wraps past midnight, e.g. 22:00–08:00.
+export function isInQuietHours(quietHours: QuietHours, hour: number): boolean {
+  const { enabled, startHour, endHour } = quietHours;
+  if (!enabled || startHour === endHour) {
+    return false;
+  }
+
+  return startHour < endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour;
+}
+
+export function isReminderPaused(pause: ReminderPauseSettings, date: Date, clock: Clock = systemClock()): boolean {
+  const dateKey = dateKeyOf(date.toISOString(), clock);
+  const weekday = weekdayOf(dateKey);
+  return (
+    isVacationDay(pause.vacation, dateKey) ||
+    (weekday !== null && pause.mutedWeekdays.includes(weekday)) ||
+    isInQuietHours(pause.quietHours, hourOf(date, clock))
+  );
+}
@@ -0,0 +1,223 @@
+import { CheckinReminderSettings, GoalTemplate, ReminderSettings, TaskReminderSettings, UserGoal } from '../types';
+import { Clock } from './clock';
+import { dateAtTime, weekdayOf } from './date';
+import { findGoalCategory } from './goals';
+import { clamp } from './math';
+import { seededRandom } from './random';
+
+export interface ReminderTime {
+  hour: number;
+  minute: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_GOAL_REMINDERS_PER_DAY = 8;
+const WEIGHTED_ATTEMPTS_PER_SLOT = 50;
+export const DEFAULT_TASK_MIN_GAP_MINUTES = 30;
+
+function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function parseTime(value: string): ReminderTime | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    return null;
+  }
+
+  return { hour, minute };
+}
+
+function toReminderTime(minutes: number): ReminderTime {
+  return { hour: Math.floor(minutes / 60), minute: minutes % 60 };
+}
+
+function weightedMinute(random: () => number, start: number, hourWeights: number[]): number {
+  const total = hourWeights.reduce((sum, weight) => sum + weight, 0);
+  let pick = random() * total;
+  let hourIndex = hourWeights.length - 1;
+  for (const [index, weight] of hourWeights.entries()) {
+    pick -= weight;
+    if (pick < 0) {
+      hourIndex = index;
+      break;
+    }
+  }
+
+  return start + hourIndex * 60 + Math.floor(random() * 60);
+}
+
+function weightedDayMinutes(
+  random: () => number,
+  start: number,
+  hourWeights: number[],
+  target: number,
+  gap: number,
+): number[] | null {
+  const picked: number[] = [];
+  for (let attempt = 0; attempt < target * WEIGHTED_ATTEMPTS_PER_SLOT && picked.length < target; attempt += 1) {
+    const minute = weightedMinute(random, start, hourWeights);
+    if (picked.every((other) => Math.abs(other - minute) >= Math.max(1, gap))) {
+      picked.push(minute);
+    }
+  }
+
+  return picked.length === target ? picked.sort((a, b) => a - b) : null;
+}
+
+// Picks `count` distinct minutes in [startHour, endHour) at least `minGapMinutes` apart, shrinking the gap when the window is too narrow.
+// With `hourWeights` (one per window hour) busier hours get proportionally more slots.
+export function randomDayTimes(
+  seed: string,
+  startHour: number,
+  endHour: number,
+  count: number,
+  minGapMinutes: number,
+  hourWeights?: number[] | null,
+): ReminderTime[] {
+  const start = clamp(Math.floor(startHour), 0, 23) * 60;
+  const end = clamp(Math.floor(endHour), 1, 24) * 60;
+  if (end <= start) {
+    return [];
+  }
+
+  const span = end - start;
+  const target = Math.min(Math.max(1, Math.floor(count)), span);
+  const gap = target > 1 ? Math.min(Math.max(1, Math.floor(minGapMinutes)), Math.floor((span - 1) / (target - 1))) : 0;
+  const free = span - 1 - (target - 1) * gap;
+  const random = seededRandom(seed);
+
+  const weighted =
+    hourWeights && hourWeights.length * 60 === span ? weightedDayMinutes(random, start, hourWeights, target, gap) : null;
+  if (weighted) {
+    return weighted.map(toReminderTime);
+  }
+
+  return Array.from({ length: target }, () => Math.floor(random() * (free + 1)))
+    .sort((a, b) => a - b)
+    .map((offset, index) => toReminderTime(start + offset + index * gap));
+}
+
+export function taskReminderDates(
+  taskId: string,
+  reminders: TaskReminderSettings,
+  upcomingDays: string[],
+  clock: Clock,
+): Date[] {
+  const { config } = reminders;
+  if (!reminders.enabled) {
+    return [];
+  }
+
+  const dayTimes = (dateKey: string): ReminderTime[] =>
+    config.mode === 'fixed'
+      ? config.times.flatMap((time) => parseTime(time) ?? [])
+      : randomDayTimes(
+          `${taskId}:${dateKey}`,
+          config.startHour,
+          config.endHour,
+          config.timesInWindow,
+          config.minGapMinutes ?? DEFAULT_TASK_MIN_GAP_MINUTES,
+        );
+
+  return upcomingDays
+    .filter((dateKey) => {
+      const weekday = weekdayOf(dateKey);
+      return weekday !== null && config.weekdays.includes(weekday);
+    })
+    .flatMap((dateKey) => dayTimes(dateKey).map((time) => dateAtTime(dateKey, time.hour, time.minute, clock)))
+    .filter((date) => date.getTime() > clock.now().getTime());
+}
+
+export function shiftTime(value: string, deltaMinutes: number): string {
+  const parsed = parseTime(value) ?? { hour: 21, minute: 0 };
+  const total = parsed.hour * 60 + parsed.minute + deltaMinutes;
+  return formatTime(((total % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+}
+
+export function checkinReminderDates(
+  reminder: CheckinReminderSettings,
+  upcomingDays: string[],
+  checkinDates: Set<string>,
+  clock: Clock,
+): Date[] {
+  const time = parseTime(reminder.time);
+  if (!reminder.enabled || !time) {
+    return [];
+  }
+
+  return upcomingDays
+    .filter((dateKey) => {
+      const weekday = weekdayOf(dateKey);
+      return weekday !== null && reminder.weekdays.includes(weekday) && !checkinDates.has(dateKey);
+    })
+    .map((dateKey) => dateAtTime(dateKey, time.hour, time.minute, clock))
+    .filter((date) => date.getTime() > clock.now().getTime());
+}
+
+export function goalReminderDates(
+  settings: ReminderSettings,
+  upcomingDays: string[],
+  clock: Clock,
+  hourWeights: number[] | null = null,
+): Date[] {
+  const count = clamp(settings.timesPerDay, 1, MAX_GOAL_REMINDERS_PER_DAY);
+  return upcomingDays
+    .flatMap((dateKey) =>
+      randomDayTimes(
+        `goal:${dateKey}`,
+        settings.startHour,
+        settings.endHour,
+        count,
+        settings.minGapMinutes,
+        hourWeights,
+      ).map((time) => dateAtTime(dateKey, time.hour, time.minute, clock)),
+    )
+    .filter((date) => date.getTime() > clock.now().getTime());
+}
+
+export function goalReminderTexts(
+  goals: UserGoal[],
+  categories: GoalTemplate[],
+  packTexts: string[],
+  fallback: string,
+): string[] {
+  const texts = [
+    ...goals.flatMap((goal) => [
+      ...(findGoalCategory(categories, goal.category)?.reminders ?? []),
+      goal.customAction.trim(),
+    ]),
+    ...packTexts,
+  ];
+  const unique = [...new Set(texts.filter(Boolean))];
+  return unique.length ? unique : [fallback];
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const next = [...items];
+  for (let i = next.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [next[i], next[j]] = [next[j] as T, next[i] as T];
+  }
+  return next;
+}
+
+// Every text is used once per cycle; consecutive cycles never start with the text that ended the previous one.
+export function rotateReminderTexts(pool: string[], count: number, random: () => number = Math.random): string[] {
+  const result: string[] = [];
+  while (pool.length > 0 && result.length < count) {
+    const cycle = shuffle(pool, random);
+    if (cycle.length > 1 && cycle[0] === result[result.length - 1]) {
+      [cycle[0], cycle[1]] = [cycle[1] as string, cycle[0] as string];
+    }
+    result.push(...cycle);
+  }
+
+  return result.slice(0, count);
+}
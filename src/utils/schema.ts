@@ -0,0 +1,406 @@
+import { defaultState } from '../constants/defaultState';
+import { isLocale } from '../i18n';
+import { isThemeMode } from '../theme';
+import { AppState } from '../types';
+import { isHexColor } from './templatePacks';
+
+type RawState = Record<string, unknown>;
+type Migration = (state: RawState) => RawState;
+
+const SETTINGS_BLOCK_KINDS = ['traits', 'emotions', 'habits', 'values', 'custom'];
+const WEEKDAY_KEYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+function isRecord(value: unknown): value is RawState {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isArrayOf(value: unknown, check: (item: unknown) => boolean): boolean {
+  return Array.isArray(value) && value.every(check);
+}
+
+function recordOr(value: unknown): RawState {
+  return isRecord(value) ? value : {};
+}
+
+// Index N migrates a payload from schema version N + 1 to N + 2.
+const MIGRATIONS: Migration[] = [
+  // v1 -> v2: v1 payloads were bare AppState objects patched on every load; fill every gap once.
+  (state) => ({
+    ...state,
+    goals: state.goals ?? defaultState.goals,
+    reminderSettings: { ...defaultState.reminderSettings, ...recordOr(state.reminderSettings) },
+    checkins: state.checkins ?? defaultState.checkins,
+    profile: { ...defaultState.profile, ...recordOr(state.profile) },
+    settingsBlocks: state.settingsBlocks ?? defaultState.settingsBlocks,
+    sectionNotes: { ...defaultState.sectionNotes, ...recordOr(state.sectionNotes) },
+    sectionTasks: state.sectionTasks ?? defaultState.sectionTasks,
+    taskCompletions: state.taskCompletions ?? defaultState.taskCompletions,
+  }),
+  // v2 -> v3: configurable backfill window for past check-ins.
+  (state) => ({
+    ...state,
+    checkinSettings: { ...defaultState.checkinSettings, ...recordOr(state.checkinSettings) },
+  }),
+  // v3 -> v4: trash for deleted blocks and tasks.
+  (state) => ({
+    ...state,
+    trash: state.trash ?? defaultState.trash,
+  }),
+  // v4 -> v5: tasks skipped for a day from a notification action.
+  (state) => ({
+    ...state,
+    taskSkips: state.taskSkips ?? defaultState.taskSkips,
+  }),
+  // v5 -> v6: evening check-in reminder.
+  (state) => {
+    const checkinSettings = recordOr(state.checkinSettings);
+    return {
+      ...state,
+      checkinSettings: {
+        ...defaultState.checkinSettings,
+        ...checkinSettings,
+        reminder: { ...defaultState.checkinSettings.reminder, ...recordOr(checkinSettings.reminder) },
+      },
+    };
+  },
+  // v6 -> v7: minimum gap between randomly placed goal reminders.
+  (state) => ({
+    ...state,
+    reminderSettings: { ...defaultState.reminderSettings, ...recordOr(state.reminderSettings) },
+  }),
+  // v7 -> v8: goal reminder slots adapt to response statistics.
+  (state) => ({
+    ...state,
+    reminderSettings: { ...defaultState.reminderSettings, ...recordOr(state.reminderSettings) },
+  }),
+  // v8 -> v9: quiet hours, muted weekdays and vacation mode.
+  (state) => ({
+    ...state,
+    reminderPause: state.reminderPause ?? defaultState.reminderPause,
+  }),
+  // v9 -> v10: home time zone and a configurable day boundary.
+  (state) => ({
+    ...state,
+    timeSettings: { ...defaultState.timeSettings, ...recordOr(state.timeSettings) },
+  }),
+  // v10 -> v11: user-defined goal categories.
+  (state) => ({
+    ...state,
+    customGoalCategories: state.customGoalCategories ?? [],
+  }),
+  // v11 -> v12: importable template packs.
+  (state) => ({
+    ...state,
+    templatePacks: state.templatePacks ?? [],
+  }),
+  // v12 -> v13: interface language, null follows the device.
+  (state) => ({
+    ...state,
+    profile: { ...defaultState.profile, ...recordOr(state.profile) },
+  }),
+  // v13 -> v14: colour theme mode.
+  (state) => ({
+    ...state,
+    profile: { ...defaultState.profile, ...recordOr(state.profile) },
+  }),
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length + 1;
+
+export function migrateState(state: RawState, fromVersion: number): RawState | null {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1 || fromVersion > SCHEMA_VERSION) {
+    return null;
+  }
+
+  return MIGRATIONS.slice(fromVersion - 1).reduce((current, migrate) => migrate(current), state);
+}
+
+function isGoal(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.category) &&
+    isString(value.customAction) &&
+    isBoolean(value.isActive)
+  );
+}
+
+function isGoalCategory(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.title) &&
+    isString(value.description) &&
+    isHexColor(value.color) &&
+    isArrayOf(value.reminders, isString)
+  );
+}
+
+function isCheckin(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.date) &&
+    isNumber(value.score) &&
+    isString(value.note) &&
+    (value.goalScores === undefined || (isRecord(value.goalScores) && Object.values(value.goalScores).every(isNumber))) &&
+    (value.enteredLate === undefined || isBoolean(value.enteredLate))
+  );
+}
+
+function isWeekday(value: unknown): boolean {
+  return isString(value) && WEEKDAY_KEYS.includes(value);
+}
+
+function isCheckinReminder(value: unknown): boolean {
+  return isRecord(value) && isBoolean(value.enabled) && isString(value.time) && isArrayOf(value.weekdays, isWeekday);
+}
+
+function isReminderPause(value: unknown): boolean {
+  if (!isRecord(value) || !isRecord(value.quietHours) || !isArrayOf(value.mutedWeekdays, isWeekday)) {
+    return false;
+  }
+
+  const { quietHours, vacation } = value;
+  return (
+    isBoolean(quietHours.enabled) &&
+    isNumber(quietHours.startHour) &&
+    isNumber(quietHours.endHour) &&
+    (vacation === null || (isRecord(vacation) && isString(vacation.startDate) && isString(vacation.endDate)))
+  );
+}
+
+function isTimeSettings(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    (value.homeTimeZone === null || isString(value.homeTimeZone)) &&
+    isNumber(value.dayEndHour)
+  );
+}
+
+function isSettingsBlock(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.kind) &&
+    SETTINGS_BLOCK_KINDS.includes(value.kind) &&
+    isString(value.title) &&
+    isString(value.color) &&
+    (value.templateKind === undefined || isString(value.templateKind))
+  );
+}
+
+function isTaskSuggestion(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.title) &&
+    (value.description === undefined || isString(value.description)) &&
+    (value.motivation === undefined || isString(value.motivation))
+  );
+}
+
+function isPackBlock(value: unknown): boolean {
+  return isRecord(value) && isString(value.kind) && isString(value.title) && isHexColor(value.color);
+}
+
+function isInstalledTemplatePack(value: unknown): boolean {
+  if (!isRecord(value) || !isBoolean(value.enabled) || !isRecord(value.pack)) {
+    return false;
+  }
+
+  const { pack } = value;
+  return (
+    isString(pack.id) &&
+    isNumber(pack.version) &&
+    isString(pack.title) &&
+    isString(pack.description) &&
+    isArrayOf(pack.goals, isGoalCategory) &&
+    isArrayOf(pack.reminders, isString) &&
+    isArrayOf(pack.blocks, isPackBlock) &&
+    isRecord(pack.taskSuggestions) &&
+    Object.values(pack.taskSuggestions).every((items) => isArrayOf(items, isTaskSuggestion))
+  );
+}
+
+function isTaskReminders(value: unknown): boolean {
+  if (!isRecord(value) || !isBoolean(value.enabled) || !isRecord(value.config)) {
+    return false;
+  }
+
+  const { config } = value;
+  if (!isArrayOf(config.weekdays, isWeekday)) {
+    return false;
+  }
+  if (config.mode === 'fixed') {
+    return isArrayOf(config.times, isString);
+  }
+
+  return (
+    config.mode === 'random' &&
+    isNumber(config.startHour) &&
+    isNumber(config.endHour) &&
+    isNumber(config.timesInWindow) &&
+    (config.minGapMinutes === undefined || isNumber(config.minGapMinutes))
+  );
+}
+
+function isBlockTask(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isString(value.title) &&
+    isString(value.description) &&
+    isString(value.motivation) &&
+    isString(value.motivationImageUri) &&
+    isTaskReminders(value.reminders) &&
+    (value.archivedAt === undefined || isString(value.archivedAt))
+  );
+}
+
+function isTaskCompletion(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.taskId) &&
+    isString(value.date) &&
+    (value.count === undefined || isNumber(value.count)) &&
+    (value.note === undefined || isString(value.note))
+  );
+}
+
+function isTaskSkip(value: unknown): boolean {
+  return isRecord(value) && isString(value.taskId) && isString(value.date);
+}
+
+function isTrashItem(value: unknown): boolean {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.deletedAt)) {
+    return false;
+  }
+  if (value.kind === 'task') {
+    return isString(value.blockId) && isBlockTask(value.task);
+  }
+
+  return (
+    value.kind === 'block' &&
+    isSettingsBlock(value.block) &&
+    isString(value.note) &&
+    isArrayOf(value.tasks, isBlockTask)
+  );
+}
+
+type Check = (value: unknown) => boolean;
+
+export interface RepairedState {
+  state: AppState;
+  dropped: number;
+}
+
+function isLanguage(value: unknown): boolean {
+  return value === null || isLocale(value);
+}
+
+// Drops the records that fail validation and falls back to defaults field by field, counting every repair.
+export function repairState(value: unknown): RepairedState | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  let dropped = 0;
+
+  const list = <T>(items: unknown, check: Check, fallback: T[]): T[] => {
+    if (!Array.isArray(items)) {
+      dropped += 1;
+      return fallback;
+    }
+
+    const kept = items.filter(check);
+    dropped += items.length - kept.length;
+    return kept as T[];
+  };
+
+  const item = <T>(candidate: unknown, check: Check, fallback: T): T => {
+    if (check(candidate)) {
+      return candidate as T;
+    }
+
+    dropped += 1;
+    return fallback;
+  };
+
+  const fields = <T extends object>(candidate: unknown, fallback: T, checks: Record<keyof T, Check>): T => {
+    const source = recordOr(candidate);
+    const entries = (Object.keys(checks) as (keyof T & string)[]).map((key) => [
+      key,
+      item(source[key], checks[key], fallback[key]),
+    ]);
+    return Object.fromEntries(entries) as T;
+  };
+
+  const dictionary = <T>(candidate: unknown, repairEntry: (entry: unknown) => T | null): Record<string, T> => {
+    if (!isRecord(candidate)) {
+      dropped += 1;
+      return {};
+    }
+
+    const entries = Object.entries(candidate).flatMap(([key, entry]): [string, T][] => {
+      const repaired = repairEntry(entry);
+      if (repaired === null) {
+        dropped += 1;
+        return [];
+      }
+      return [[key, repaired]];
+    });
+    return Object.fromEntries(entries);
+  };
+
+  const state: AppState = {
+    goals: list(value.goals, isGoal, defaultState.goals),
+    reminderSettings: fields(value.reminderSettings, defaultState.reminderSettings, {
+      enabled: isBoolean,
+      timesPerDay: isNumber,
+      startHour: isNumber,
+      endHour: isNumber,
+      minGapMinutes: isNumber,
+      adaptive: isBoolean,
+    }),
+    reminderPause: item(value.reminderPause, isReminderPause, defaultState.reminderPause),
+    timeSettings: item(value.timeSettings, isTimeSettings, defaultState.timeSettings),
+    customGoalCategories: list(value.customGoalCategories, isGoalCategory, []),
+    templatePacks: list(value.templatePacks, isInstalledTemplatePack, []),
+    checkins: list(value.checkins, isCheckin, []),
+    checkinSettings: fields(value.checkinSettings, defaultState.checkinSettings, {
+      backfillDays: isNumber,
+      reminder: isCheckinReminder,
+    }),
+    profile: fields(value.profile, defaultState.profile, {
+      name: isString,
+      onboardingCompleted: isBoolean,
+      isPremium: isBoolean,
+      language: isLanguage,
+      theme: isThemeMode,
+    }),
+    settingsBlocks: list(value.settingsBlocks, isSettingsBlock, defaultState.settingsBlocks),
+    sectionNotes: dictionary(value.sectionNotes, (note) => (isString(note) ? note : null)),
+    sectionTasks: dictionary(value.sectionTasks, (tasks) => (Array.isArray(tasks) ? list(tasks, isBlockTask, []) : null)),
+    taskCompletions: list(value.taskCompletions, isTaskCompletion, []),
+    taskSkips: list(value.taskSkips, isTaskSkip, []),
+    trash: list(value.trash, isTrashItem, []),
+  };
+
+  return { state, dropped };
+}
+
+export function validateState(value: unknown): AppState | null {
+  const repaired = repairState(value);
+  return repaired && repaired.dropped === 0 ? repaired.state : null;
+}
@@ -1,72 +1,153 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { AppState } from '../types';
+import { defaultState } from '../constants/defaultState';
+import { AppState, NotificationLogEntry, PendingTaskAction } from '../types';
+import { migrateState, RepairedState, repairState, SCHEMA_VERSION } from './schema';
 
 const KEY = 'character_plus_state_v1';
+const QUARANTINE_KEY_PREFIX = 'character_plus_quarantine_';
+const NOTIFICATION_LOG_KEY = 'character_plus_notification_log_v1';
+const PENDING_TASK_ACTIONS_KEY = 'character_plus_pending_task_actions_v1';
 
-export const defaultState: AppState = {
-  goals: [],
-  reminderSettings: {
-    enabled: false,
-    timesPerDay: 3,
-    startHour: 9,
-    endHour: 21,
-  },
-  checkins: [],
-  profile: {
-    name: '',
-    onboardingCompleted: false,
-    isPremium: false,
-  },
-  settingsBlocks: [
-    { id: 'traits', kind: 'traits', title: 'Черты характера', color: '#eef4ff' },
-    { id: 'emotions', kind: 'emotions', title: 'Эмоции', color: '#eefaf5' },
-    { id: 'habits', kind: 'habits', title: 'Привычки', color: '#fff8eb' },
-    { id: 'values', kind: 'values', title: 'Ценности и убеждения', color: '#f5f0ff' },
-  ],
-  sectionNotes: {
-    emotions: '',
-    habits: '',
-    values: '',
-  },
-  sectionTasks: {},
-};
-
-export async function loadState(): Promise<AppState> {
+interface PersistedState {
+  schemaVersion: number;
+  state: AppState;
+}
+
+export interface LoadedState {
+  state: AppState;
+  quarantineKey: string | null;
+  dropped: number;
+}
+
+function isPersistedState(value: unknown): value is { schemaVersion: number; state: Record<string, unknown> } {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.schemaVersion === 'number' &&
+    typeof candidate.state === 'object' &&
+    candidate.state !== null &&
+    !Array.isArray(candidate.state)
+  );
+}
+
+export function restoreState(raw: string): RepairedState | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (isPersistedState(parsed)) {
+    return repairState(migrateState(parsed.state, parsed.schemaVersion));
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  return repairState(migrateState(parsed as Record<string, unknown>, 1));
+}
+
+async function quarantine(raw: string): Promise<string> {
+  const key = `${QUARANTINE_KEY_PREFIX}${Date.now()}`;
+  await AsyncStorage.setItem(key, raw);
+  return key;
+}
+
+export async function loadQuarantine(key: string): Promise<string | null> {
+  return AsyncStorage.getItem(key);
+}
+
+// A partly broken payload keeps its valid records; the original is quarantined so nothing is lost for good.
+export async function loadState(fallback = defaultState): Promise<LoadedState> {
   const raw = await AsyncStorage.getItem(KEY);
   if (!raw) {
-    return defaultState;
+    return { state: fallback, quarantineKey: null, dropped: 0 };
+  }
+
+  const restored = restoreState(raw);
+  if (restored && restored.dropped === 0) {
+    return { state: restored.state, quarantineKey: null, dropped: 0 };
+  }
+
+  const quarantineKey = await quarantine(raw);
+  return restored
+    ? { state: restored.state, quarantineKey, dropped: restored.dropped }
+    : { state: fallback, quarantineKey, dropped: 0 };
+}
+
+export async function saveState(state: AppState): Promise<void> {
+  const payload: PersistedState = { schemaVersion: SCHEMA_VERSION, state };
+  await AsyncStorage.setItem(KEY, JSON.stringify(payload));
+}
+
+function isNotificationLogEntry(value: unknown): value is NotificationLogEntry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.source === 'string' &&
+    typeof candidate.scheduledAt === 'string'
+  );
+}
+
+export async function loadNotificationLog(): Promise<NotificationLogEntry[]> {
+  const raw = await AsyncStorage.getItem(NOTIFICATION_LOG_KEY);
+  if (!raw) {
+    return [];
   }
 
   try {
-    const parsed = JSON.parse(raw) as Partial<AppState>;
-    const parsedBlocks =
-      parsed.settingsBlocks && parsed.settingsBlocks.length > 0 ? parsed.settingsBlocks : defaultState.settingsBlocks;
-
-    return {
-      ...defaultState,
-      ...parsed,
-      reminderSettings: {
-        ...defaultState.reminderSettings,
-        ...parsed.reminderSettings,
-      },
-      profile: {
-        ...defaultState.profile,
-        ...parsed.profile,
-      },
-      goals: parsed.goals ?? [],
-      checkins: parsed.checkins ?? [],
-      settingsBlocks: parsedBlocks,
-      sectionNotes: {
-        ...defaultState.sectionNotes,
-        ...parsed.sectionNotes,
-      },
-      sectionTasks: parsed.sectionTasks ?? {},
-    };
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isNotificationLogEntry) : [];
   } catch {
-    return defaultState;
+    return [];
   }
 }
 
-export async function saveState(state: AppState): Promise<void> {
-  await AsyncStorage.setItem(KEY, JSON.stringify(state));
+export async function saveNotificationLog(log: NotificationLogEntry[]): Promise<void> {
+  await AsyncStorage.setItem(NOTIFICATION_LOG_KEY, JSON.stringify(log));
+}
+
+function isPendingTaskAction(value: unknown): value is PendingTaskAction {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    (candidate.action === 'done' || candidate.action === 'skip') &&
+    typeof candidate.taskId === 'string' &&
+    typeof candidate.firedAt === 'string'
+  );
+}
+
+export async function loadPendingTaskActions(): Promise<PendingTaskAction[]> {
+  const raw = await AsyncStorage.getItem(PENDING_TASK_ACTIONS_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isPendingTaskAction) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function savePendingTaskActions(actions: PendingTaskAction[]): Promise<void> {
+  if (actions.length === 0) {
+    await AsyncStorage.removeItem(PENDING_TASK_ACTIONS_KEY);
+    return;
+  }
+
+  await AsyncStorage.setItem(PENDING_TASK_ACTIONS_KEY, JSON.stringify(actions));
 }
@@ -0,0 +1,76 @@
+import { BlockTask, DailyCheckin, TaskCompletion, TaskSkip, UserGoal } from '../types';
+import { shiftDateKey } from './date';
+import { isTaskScheduledOn, isTaskSkipped } from './tasks';
+
+export const SUCCESS_SCORE = 4;
+
+export interface Streak {
+  current: number;
+  longest: number;
+}
+
+export function computeStreak(
+  successDates: Iterable<string>,
+  today: string,
+  isScheduled: (dateKey: string) => boolean = () => true,
+): Streak {
+  const successes = new Set(successDates);
+  const first = [...successes].sort()[0];
+  if (!first || first > today) {
+    return { current: 0, longest: 0 };
+  }
+
+  let current = 0;
+  let longest = 0;
+  for (let date = first; date <= today; date = shiftDateKey(date, 1)) {
+    if (successes.has(date)) {
+      current += 1;
+      longest = Math.max(longest, current);
+    } else if (isScheduled(date) && date !== today) {
+      current = 0;
+    }
+  }
+
+  return { current, longest };
+}
+
+export function checkinStreak(
+  checkins: DailyCheckin[],
+  today: string,
+  isDayOff: (dateKey: string) => boolean = () => false,
+): Streak {
+  return computeStreak(
+    checkins.map((item) => item.date),
+    today,
+    (date) => !isDayOff(date),
+  );
+}
+
+export function goalStreak(
+  goal: UserGoal,
+  checkins: DailyCheckin[],
+  today: string,
+  isDayOff: (dateKey: string) => boolean = () => false,
+): Streak {
+  return computeStreak(
+    checkins
+      .filter((item) => (item.goalScores?.[goal.id] ?? item.score) >= SUCCESS_SCORE)
+      .map((item) => item.date),
+    today,
+    (date) => !isDayOff(date),
+  );
+}
+
+export function taskStreak(
+  task: BlockTask,
+  completions: TaskCompletion[],
+  today: string,
+  skips: TaskSkip[] = [],
+  isDayOff: (dateKey: string) => boolean = () => false,
+): Streak {
+  return computeStreak(
+    completions.filter((item) => item.taskId === task.id).map((item) => item.date),
+    today,
+    (date) => isTaskScheduledOn(task, date) && !isTaskSkipped(skips, task.id, date) && !isDayOff(date),
+  );
+}
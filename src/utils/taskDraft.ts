@@ -0,0 +1,245 @@
+import { BlockTask, ReminderMode, TaskReminderSettings, TaskSuggestion, WeekdayKey } from '../types';
+import { clamp } from './math';
+import { DEFAULT_TASK_MIN_GAP_MINUTES } from './reminders';
+
+const MAX_TASK_MIN_GAP_MINUTES = 180;
+
+export interface TaskDraft {
+  title: string;
+  description: string;
+  motivation: string;
+  motivationImageUri: string;
+  reminders: TaskReminderSettings;
+}
+
+export function createTaskDraft(): TaskDraft {
+  return {
+    title: '',
+    description: '',
+    motivation: '',
+    motivationImageUri: '',
+    reminders: {
+      enabled: false,
+      config: {
+        mode: 'fixed',
+        weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+        times: [],
+      },
+    },
+  };
+}
+
+export function cloneTaskReminders(reminders: TaskReminderSettings): TaskReminderSettings {
+  if (reminders.config.mode === 'fixed') {
+    return {
+      enabled: reminders.enabled,
+      config: {
+        mode: 'fixed',
+        weekdays: [...reminders.config.weekdays],
+        times: [...reminders.config.times],
+      },
+    };
+  }
+
+  return {
+    enabled: reminders.enabled,
+    config: {
+      mode: 'random',
+      weekdays: [...reminders.config.weekdays],
+      startHour: reminders.config.startHour,
+      endHour: reminders.config.endHour,
+      timesInWindow: reminders.config.timesInWindow,
+      ...(reminders.config.minGapMinutes !== undefined ? { minGapMinutes: reminders.config.minGapMinutes } : {}),
+    },
+  };
+}
+
+export function createTaskDraftFromTask(task: BlockTask): TaskDraft {
+  return {
+    title: task.title,
+    description: task.description,
+    motivation: task.motivation,
+    motivationImageUri: task.motivationImageUri,
+    reminders: cloneTaskReminders(task.reminders),
+  };
+}
+
+export function buildTaskFromDraft(draft: TaskDraft, id: string): BlockTask {
+  return {
+    id,
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    motivation: draft.motivation.trim(),
+    motivationImageUri: draft.motivationImageUri.trim(),
+    reminders: cloneTaskReminders(draft.reminders),
+  };
+}
+
+export function isTaskReminderValid(reminders: TaskReminderSettings): boolean {
+  if (!reminders.enabled) {
+    return true;
+  }
+  if (!reminders.config.weekdays.length) {
+    return false;
+  }
+  if (reminders.config.mode === 'fixed') {
+    return reminders.config.times.length > 0;
+  }
+  return reminders.config.endHour > reminders.config.startHour;
+}
+
+export function normalizeTimeValue(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    return null;
+  }
+
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+export function applyTaskSuggestion(draft: TaskDraft, suggestion: TaskSuggestion): TaskDraft {
+  return {
+    ...draft,
+    title: suggestion.title,
+    description: draft.description.trim() ? draft.description : (suggestion.description ?? draft.description),
+    motivation: draft.motivation.trim() ? draft.motivation : (suggestion.motivation ?? draft.motivation),
+  };
+}
+
+export function setDraftRemindersEnabled(draft: TaskDraft, enabled: boolean): TaskDraft {
+  return { ...draft, reminders: { ...draft.reminders, enabled } };
+}
+
+export function toggleDraftWeekday(draft: TaskDraft, day: WeekdayKey): TaskDraft {
+  const list = draft.reminders.config.weekdays;
+  const nextWeekdays = list.includes(day) ? list.filter((item) => item !== day) : [...list, day];
+
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config: {
+        ...draft.reminders.config,
+        weekdays: nextWeekdays,
+      },
+    },
+  };
+}
+
+export function switchDraftReminderMode(draft: TaskDraft, mode: ReminderMode): TaskDraft {
+  const { config } = draft.reminders;
+
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config:
+        mode === 'fixed'
+          ? {
+              mode: 'fixed',
+              weekdays: config.weekdays,
+              times: config.mode === 'fixed' ? config.times : [],
+            }
+          : {
+              mode: 'random',
+              weekdays: config.weekdays,
+              startHour: config.mode === 'random' ? config.startHour : 9,
+              endHour: config.mode === 'random' ? config.endHour : 21,
+              timesInWindow: config.mode === 'random' ? config.timesInWindow : 3,
+              minGapMinutes:
+                config.mode === 'random' ? (config.minGapMinutes ?? DEFAULT_TASK_MIN_GAP_MINUTES) : DEFAULT_TASK_MIN_GAP_MINUTES,
+            },
+    },
+  };
+}
+
+export function addDraftFixedTime(draft: TaskDraft, time: string): TaskDraft {
+  const { config } = draft.reminders;
+  if (config.mode !== 'fixed' || config.times.includes(time)) {
+    return draft;
+  }
+
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config: { ...config, times: [...config.times, time].sort() },
+    },
+  };
+}
+
+export function removeDraftFixedTime(draft: TaskDraft, time: string): TaskDraft {
+  const { config } = draft.reminders;
+  if (config.mode !== 'fixed') {
+    return draft;
+  }
+
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config: { ...config, times: config.times.filter((item) => item !== time) },
+    },
+  };
+}
+
+export function shiftDraftWindow(draft: TaskDraft, field: 'startHour' | 'endHour', delta: number): TaskDraft {
+  const { config } = draft.reminders;
+  if (config.mode !== 'random') {
+    return draft;
+  }
+
+  let { startHour, endHour } = config;
+  if (field === 'startHour') {
+    startHour = clamp(startHour + delta, 0, 22);
+    endHour = Math.max(endHour, startHour + 1);
+  } else {
+    endHour = clamp(endHour + delta, 1, 23);
+    startHour = Math.min(startHour, endHour - 1);
+  }
+
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config: { ...config, startHour, endHour },
+    },
+  };
+}
+
+export function changeDraftTimesInWindow(draft: TaskDraft, delta: number): TaskDraft {
+  const { config } = draft.reminders;
+  if (config.mode !== 'random') {
+    return draft;
+  }
+
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config: { ...config, timesInWindow: clamp(config.timesInWindow + delta, 1, 12) },
+    },
+  };
+}
+
+export function changeDraftMinGap(draft: TaskDraft, delta: number): TaskDraft {
+  const { config } = draft.reminders;
+  if (config.mode !== 'random') {
+    return draft;
+  }
+
+  const current = config.minGapMinutes ?? DEFAULT_TASK_MIN_GAP_MINUTES;
+  return {
+    ...draft,
+    reminders: {
+      ...draft.reminders,
+      config: { ...config, minGapMinutes: clamp(current + delta, 0, MAX_TASK_MIN_GAP_MINUTES) },
+    },
+  };
+}
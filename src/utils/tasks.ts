@@ -0,0 +1,23 @@
+import { BlockTask, TaskCompletion, TaskSkip } from '../types';
+import { weekdayOf } from './date';
+
+export function isTaskScheduledOn(task: BlockTask, dateKey: string): boolean {
+  if (!task.reminders.enabled) {
+    return true;
+  }
+
+  const weekday = weekdayOf(dateKey);
+  return weekday !== null && task.reminders.config.weekdays.includes(weekday);
+}
+
+export function findCompletion(
+  completions: TaskCompletion[],
+  taskId: string,
+  dateKey: string,
+): TaskCompletion | undefined {
+  return completions.find((item) => item.taskId === taskId && item.date === dateKey);
+}
+
+export function isTaskSkipped(skips: TaskSkip[], taskId: string, dateKey: string): boolean {
+  return skips.some((item) => item.taskId === taskId && item.date === dateKey);
+}
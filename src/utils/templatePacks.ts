@@ -0,0 +1,180 @@
+import { CUSTOM_GOAL_COLORS } from '../constants/templates';
+import {
+  GoalTemplate,
+  InstalledTemplatePack,
+  PackBlockTemplate,
+  SettingsBlock,
+  TaskSuggestion,
+  TemplatePack,
+  UserGoal,
+} from '../types';
+
+export const PACK_FORMAT = 'character-plus-pack';
+export const PACK_FORMAT_VERSION = 1;
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const DEFAULT_PACK_BLOCK_COLOR = '#f0f6ff';
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function texts(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(text).filter(Boolean) : [];
+}
+
+function color(value: unknown, fallback: string): string {
+  const candidate = text(value);
+  return isHexColor(candidate) ? candidate : fallback;
+}
+
+function records(value: unknown): RawRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function parseGoals(packId: string, value: unknown): GoalTemplate[] {
+  return records(value).flatMap((goal, index) => {
+    const id = text(goal.id);
+    const title = text(goal.title);
+    if (!id || !title) {
+      return [];
+    }
+
+    return [
+      {
+        id: packGoalCategory(packId, id),
+        title,
+        description: text(goal.description),
+        color: color(goal.color, CUSTOM_GOAL_COLORS[index % CUSTOM_GOAL_COLORS.length] ?? '#4169e1'),
+        reminders: texts(goal.reminders),
+      },
+    ];
+  });
+}
+
+function parseBlocks(value: unknown): PackBlockTemplate[] {
+  return records(value).flatMap((block) => {
+    const kind = text(block.kind);
+    const title = text(block.title);
+    return kind && title ? [{ kind, title, color: color(block.color, DEFAULT_PACK_BLOCK_COLOR) }] : [];
+  });
+}
+
+function parseSuggestions(value: unknown): Record<string, TaskSuggestion[]> {
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([kind, items]) => [
+      kind,
+      records(items).flatMap((item): TaskSuggestion[] => {
+        const title = text(item.title);
+        const description = text(item.description);
+        const motivation = text(item.motivation);
+        return title ? [{ title, ...(description ? { description } : {}), ...(motivation ? { motivation } : {}) }] : [];
+      }),
+    ]),
+  );
+}
+
+// Pack colours end up in style props, so anything but #rgb or #rrggbb is replaced with a default.
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+}
+
+export function packGoalCategory(packId: string, goalId: string): string {
+  return `${packId}:${goalId}`;
+}
+
+export function packBlockKind(packId: string, kind: string): string {
+  return `${packId}/${kind}`;
+}
+
+export function parseTemplatePack(raw: string): TemplatePack | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(parsed)) {
+    return null;
+  }
+
+  return normalizeTemplatePack(parsed);
+}
+
+export function normalizeTemplatePack(candidate: RawRecord): TemplatePack | null {
+  const id = text(candidate.id);
+  const title = text(candidate.title);
+  if (
+    candidate.format !== PACK_FORMAT ||
+    typeof candidate.formatVersion !== 'number' ||
+    candidate.formatVersion > PACK_FORMAT_VERSION ||
+    typeof candidate.version !== 'number' ||
+    !Number.isInteger(candidate.version) ||
+    candidate.version < 1 ||
+    !PACK_ID_PATTERN.test(id) ||
+    !title
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    version: candidate.version,
+    title,
+    description: text(candidate.description),
+    goals: parseGoals(id, candidate.goals),
+    reminders: texts(candidate.reminders),
+    blocks: parseBlocks(candidate.blocks),
+    taskSuggestions: parseSuggestions(candidate.taskSuggestions),
+  };
+}
+
+export function enabledPacks(installed: InstalledTemplatePack[]): TemplatePack[] {
+  return installed.filter((item) => item.enabled).map((item) => item.pack);
+}
+
+// Categories of a disabled pack stay resolvable while a goal still uses them.
+export function packGoalCategories(installed: InstalledTemplatePack[], goals: UserGoal[]): GoalTemplate[] {
+  return installed.flatMap(({ pack, enabled }) =>
+    pack.goals.filter((category) => enabled || goals.some((goal) => goal.category === category.id)),
+  );
+}
+
+export function packReminderTexts(installed: InstalledTemplatePack[]): string[] {
+  return enabledPacks(installed).flatMap((pack) => pack.reminders);
+}
+
+export function packBlockTemplates(
+  installed: InstalledTemplatePack[],
+  blocks: SettingsBlock[],
+): (PackBlockTemplate & { packId: string })[] {
+  return enabledPacks(installed).flatMap((pack) =>
+    pack.blocks
+      .filter((block) => !blocks.some((item) => item.templateKind === packBlockKind(pack.id, block.kind)))
+      .map((block) => ({ ...block, packId: pack.id })),
+  );
+}
+
+// Built-in block kinds collect suggestions from every enabled pack; pack blocks only from their own pack.
+export function packTaskSuggestions(installed: InstalledTemplatePack[], block: SettingsBlock): TaskSuggestion[] {
+  const packs = enabledPacks(installed);
+  if (block.kind !== 'custom') {
+    return packs.flatMap((pack) => pack.taskSuggestions[block.kind] ?? []);
+  }
+
+  const owner = packs.find((pack) => block.templateKind?.startsWith(`${pack.id}/`));
+  const kind = owner && block.templateKind ? block.templateKind.slice(owner.id.length + 1) : null;
+  return owner && kind ? (owner.taskSuggestions[kind] ?? []) : [];
+}
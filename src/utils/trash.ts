@@ -0,0 +1,29 @@
+import { AppState, TrashItem } from '../types';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function expiresAt(item: TrashItem): number {
+  return Date.parse(item.deletedAt) + TRASH_RETENTION_DAYS * DAY_MS;
+}
+
+export function purgeExpiredTrash(trash: TrashItem[], now: Date): TrashItem[] {
+  return trash.filter((item) => expiresAt(item) > now.getTime());
+}
+
+export function trashDaysLeft(item: TrashItem, now: Date): number {
+  return Math.max(0, Math.ceil((expiresAt(item) - now.getTime()) / DAY_MS));
+}
+
+export function trashItemTitle(item: TrashItem): string {
+  return item.kind === 'task' ? item.task.title : item.block.title;
+}
+
+export function canRestoreTrashItem(state: AppState, item: TrashItem): boolean {
+  if (item.kind === 'task') {
+    return state.settingsBlocks.some((block) => block.id === item.blockId);
+  }
+
+  return !state.settingsBlocks.some((block) => block.id === item.block.id);
+}